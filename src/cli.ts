@@ -0,0 +1,445 @@
+import { Command, Option } from 'commander';
+import fs from 'fs/promises';
+import path from 'path';
+import { normalizeCategory } from './lib/category-policy.js';
+import {
+  countMemories,
+  formatSearchResult,
+  renderMemoryContext,
+  scopeTitle,
+} from './lib/memory-context.js';
+import {
+  EXCHANGE_FORMATS,
+  ExchangeFormat,
+  exportMemories,
+  parseImport,
+} from './lib/memory-exchange.js';
+import { parseTtl } from './lib/memory-expiry.js';
+import {
+  DuplicatePolicy,
+  ImportStrategy,
+  MemoryScope,
+  MemoryStorage,
+  ScopeSelection,
+} from './lib/memory-storage.js';
+import {
+  MemoryConfig,
+  StorageLocationOptions,
+  createStorageOptions,
+  initializeStorage,
+  loadConfigSettings,
+  parseCount,
+  parseDuplicatePolicy,
+  parseNamedScope,
+  resolveMemoryConfig,
+} from './memory-config.js';
+
+// Subcommands run by the CLI, any other arguments start the MCP server
+export const CLI_COMMANDS = ['list', 'add', 'search', 'rm', 'export', 'import', 'stats', 'doctor'];
+
+// Whether the command line asks for a CLI subcommand instead of the server
+export const isCliCommand = (argv: string[]): boolean => CLI_COMMANDS.includes(argv[2]);
+
+interface ScopeOptions extends StorageLocationOptions {
+  scope: MemoryScope;
+}
+
+interface MultiScopeOptions extends StorageLocationOptions {
+  scope: ScopeSelection;
+}
+
+// Format implied by a file extension
+const FORMAT_EXTENSIONS: Record<string, ExchangeFormat> = {
+  '.json': 'json',
+  '.md': 'markdown',
+  '.markdown': 'markdown',
+  '.csv': 'csv',
+};
+
+// Lock directory and temporary file suffix left in a storage location by the file backend
+const LOCK_DIRECTORY = '.lock';
+const TEMP_FILE_SUFFIX = '.tmp';
+
+// Age after which the file backend treats a lock as left behind by a crashed process
+const STALE_LOCK_MS = 10_000;
+
+// Add the storage location options every subcommand takes
+const addStorageOptions = (command: Command): Command =>
+  command
+    .option('-g, --global-storage <path>', 'Specify the path to store global memories')
+    .option('-l, --local-storage <path>', 'Specify the path to store local memories')
+    .option(
+      '--named-scope <name=path>',
+      'Add a named scope, such as team=/shared/team-memory, repeat for several',
+      parseNamedScope
+    );
+
+// Add the storage location options and a scope option, 'all' is only accepted for reads and
+// 'both' as its earlier name. Named scopes are checked once the storage is opened.
+const addScopeOptions = (command: Command, allowAll = false): Command =>
+  addStorageOptions(command).option(
+    '-s, --scope <scope>',
+    allowAll
+      ? "Memory scope to use: 'global', 'local', a named scope or 'all'"
+      : "Memory scope to use: 'global', 'local' or a named scope",
+    allowAll ? 'all' : 'local'
+  );
+
+// Configuration for the storage location flags and the settings, as the server would use it.
+// The CLI edits the files on disk, so persistence is on even when the server has it off.
+const storageConfig = ({
+  globalStorage,
+  localStorage,
+  namedScope,
+}: StorageLocationOptions): MemoryConfig =>
+  resolveMemoryConfig(
+    { globalStorage, localStorage, namedScope, persistence: true },
+    loadConfigSettings()
+  );
+
+// Open the stores the server would use with the same flags, with its retention, quotas and
+// other settings
+const openStorage = (options: StorageLocationOptions, create = false): MemoryStorage => {
+  const config = storageConfig(options);
+  if (create) {
+    initializeStorage(config);
+  }
+  return new MemoryStorage(
+    config.globalStorageLocation,
+    config.localStorageLocation,
+    createStorageOptions(config)
+  );
+};
+
+// "1 category" or "N categories"
+const countCategories = (count: number): string =>
+  `${count} ${count === 1 ? 'category' : 'categories'}`;
+
+// Storage location of a scope
+const storageLocation = (config: MemoryConfig, scope: MemoryScope): string => {
+  if (scope === 'global') return config.globalStorageLocation;
+  if (scope === 'local') return config.localStorageLocation;
+  return config.namedScopes?.[scope] ?? '';
+};
+
+// Report the problems doctor finds in a storage location, errors fail the check
+const diagnoseScope = async (
+  memoryStorage: MemoryStorage,
+  scope: MemoryScope,
+  location: string
+): Promise<{ lines: string[]; errors: number }> => {
+  const lines: string[] = [];
+  let errors = 0;
+  const error = (message: string) => {
+    lines.push(`  error: ${message}`);
+    errors++;
+  };
+
+  let entries: string[];
+  try {
+    entries = await fs.readdir(location);
+  } catch {
+    return { lines: ['  warning: storage location does not exist yet'], errors };
+  }
+
+  try {
+    await fs.access(location, fs.constants.W_OK);
+  } catch {
+    error('storage location is not writable');
+  }
+
+  if (entries.includes(LOCK_DIRECTORY)) {
+    const lockAge = Date.now() - (await fs.stat(path.join(location, LOCK_DIRECTORY))).mtimeMs;
+    if (lockAge > STALE_LOCK_MS) {
+      lines.push('  warning: stale lock, it is removed by the next change');
+    }
+  }
+  for (const entry of entries.filter(entry => entry.endsWith(TEMP_FILE_SUFFIX))) {
+    lines.push(`  warning: leftover temporary file ${entry}, remove it if no server is writing`);
+  }
+
+  const ids = new Map<string, string>();
+  let memories = 0;
+  const categories = await memoryStorage.listCategories(scope);
+  for (const category of categories) {
+    try {
+      for (const memory of await memoryStorage.retrieve(category, scope)) {
+        const duplicate = ids.get(memory.id);
+        if (duplicate !== undefined) {
+          error(`memory ${memory.id} is in both ${duplicate} and ${category}`);
+        }
+        ids.set(memory.id, category);
+        memories++;
+      }
+    } catch (cause) {
+      error(cause instanceof Error ? cause.message : String(cause));
+    }
+  }
+
+  const documents: [string, () => Promise<unknown>][] = [
+    ['trash', () => memoryStorage.listDeleted(scope)],
+    ['history', () => memoryStorage.history(scope)],
+    ['snapshots', () => memoryStorage.listSnapshots(scope)],
+  ];
+  for (const [name, read] of documents) {
+    try {
+      await read();
+    } catch (cause) {
+      error(`${name}: ${cause instanceof Error ? cause.message : String(cause)}`);
+    }
+  }
+
+  lines.unshift(`  ${countMemories(memories)} in ${countCategories(categories.length)}`);
+  return { lines, errors };
+};
+
+// Build the CLI program, errors are thrown instead of exiting the process
+export const createCli = (): Command => {
+  const program = new Command()
+    .name('mcp-server-memory')
+    .description('Manage the memories of the MCP Memory Server')
+    .version('0.1.0')
+    .exitOverride();
+
+  addScopeOptions(
+    program
+      .command('list')
+      .description('Print the memories of a scope, grouped by category')
+      .option('-c, --category <category>', 'Only list memories in this category'),
+    true
+  ).action(async (options: MultiScopeOptions & { category?: string }) => {
+    const memoryStorage = openStorage(options);
+    process.stdout.write(
+      `${await renderMemoryContext(memoryStorage, {
+        scope: options.scope,
+        category: options.category,
+      })}\n`
+    );
+  });
+
+  addScopeOptions(
+    program
+      .command('add')
+      .description('Save a memory')
+      .argument('<category>', 'Category to store the memory in')
+      .argument('<data>', 'Content of the memory')
+      .option('-t, --tags <tag...>', 'Tags of the memory')
+      .option('--ttl <ttl>', 'How long the memory is kept, such as 12h or 7d', parseTtl)
+      .option(
+        '--on-duplicate <policy>',
+        "What to do when the memory duplicates one of the category: 'reject', 'merge' or 'allow', the configured policy by default",
+        parseDuplicatePolicy
+      )
+  ).action(
+    async (
+      category: string,
+      data: string,
+      options: ScopeOptions & { tags?: string[]; ttl?: number; onDuplicate?: DuplicatePolicy }
+    ) => {
+      const config = storageConfig(options);
+      const memoryStorage = openStorage(options, true);
+      const { memory, action, duplicate } = await memoryStorage.rememberChecked(
+        category,
+        data,
+        options.tags ?? [],
+        options.scope,
+        {
+          origin: 'cli add',
+          ttlMs: options.ttl,
+          onDuplicate: options.onDuplicate ?? config.onDuplicate,
+        }
+      );
+      process.stdout.write(
+        action === 'merged'
+          ? `Merged into duplicate memory with id: ${memory.id}\n`
+          : `Stored memory with id: ${memory.id}\n`
+      );
+      if (duplicate && action === 'created') {
+        process.stdout.write(
+          `Similar to memory with id: ${duplicate.id} (similarity ${duplicate.similarity.toFixed(2)})\n`
+        );
+      }
+    }
+  );
+
+  addScopeOptions(
+    program
+      .command('search')
+      .description('Search memories by content, tags and category, best matches first')
+      .argument('[query]', 'Words or phrase to search for')
+      .option('-t, --tags <tag...>', 'Only find memories with all of these tags')
+      .option('-c, --category <category...>', 'Only search these categories')
+      .option('-n, --limit <count>', 'Maximum number of results', parseCount),
+    true
+  ).action(
+    async (
+      query: string | undefined,
+      options: MultiScopeOptions & { tags?: string[]; category?: string[]; limit?: number }
+    ) => {
+      const memoryStorage = openStorage(options);
+      const results = await memoryStorage.search({
+        query,
+        tags: options.tags,
+        categories: options.category,
+        scope: options.scope,
+        limit: options.limit,
+      });
+      process.stdout.write(
+        results.length > 0
+          ? `${results.map(formatSearchResult).join('\n')}\n`
+          : 'No memories found.\n'
+      );
+    }
+  );
+
+  addScopeOptions(
+    program
+      .command('rm')
+      .description('Move memories to the trash, from where restore_memory can bring them back')
+      .argument('<id...>', 'IDs of the memories to remove')
+  ).action(async (ids: string[], options: ScopeOptions) => {
+    const memoryStorage = openStorage(options);
+    // Check every ID first, so a typo removes nothing
+    const memories = [];
+    for (const id of ids) {
+      const memory = await memoryStorage.get(id, options.scope);
+      if (!memory) {
+        throw new Error(`No ${options.scope} memory with id: ${id}`);
+      }
+      memories.push(memory);
+    }
+
+    for (const memory of memories) {
+      await memoryStorage.removeMemory(memory.category, memory.id, options.scope, {
+        origin: 'cli rm',
+      });
+      process.stdout.write(`Removed memory with id: ${memory.id}\n`);
+    }
+  });
+
+  addScopeOptions(
+    program
+      .command('export')
+      .description('Print or save the memories of a scope')
+      .addOption(
+        new Option('-f, --format <format>', 'Export format')
+          .choices(EXCHANGE_FORMATS)
+          .default('json')
+      )
+      .option('-c, --category <category...>', 'Only export memories in these categories')
+      .option('-o, --output <file>', 'Write the export to a file instead of stdout')
+  ).action(
+    async (
+      options: ScopeOptions & { format: ExchangeFormat; category?: string[]; output?: string }
+    ) => {
+      const memoryStorage = openStorage(options);
+      const included = options.category?.map(normalizeCategory);
+      const memories = (await memoryStorage.retrieveAll(options.scope)).filter(
+        memory => included === undefined || included.includes(memory.category)
+      );
+
+      const content = exportMemories(memories, options.format);
+      if (options.output !== undefined) {
+        await fs.writeFile(options.output, content, 'utf-8');
+        process.stdout.write(`Exported ${countMemories(memories.length)} to ${options.output}\n`);
+      } else {
+        process.stdout.write(content);
+      }
+    }
+  );
+
+  addScopeOptions(
+    program
+      .command('import')
+      .description('Add the memories of an export to a scope')
+      .argument('<file>', 'File to import')
+      .addOption(
+        new Option(
+          '-f, --format <format>',
+          'Format of the file, guessed from its extension by default'
+        ).choices(EXCHANGE_FORMATS)
+      )
+      .addOption(
+        new Option('--strategy <strategy>', 'What to do with memories that already exist')
+          .choices(['skip', 'overwrite', 'keep_both'])
+          .default('skip')
+      )
+  ).action(
+    async (
+      file: string,
+      options: ScopeOptions & { format?: ExchangeFormat; strategy: ImportStrategy }
+    ) => {
+      const format = options.format ?? FORMAT_EXTENSIONS[path.extname(file).toLowerCase()];
+      if (format === undefined) {
+        throw new Error(`Cannot tell the format of ${file}, pass --format`);
+      }
+
+      const records = parseImport(await fs.readFile(file, 'utf-8'), format, file);
+      const memoryStorage = openStorage(options, true);
+      const result = await memoryStorage.importMemories(records, options.scope, options.strategy, {
+        origin: 'cli import',
+      });
+      process.stdout.write(
+        `Imported ${countMemories(records.length)}: ${result.created} created, ${result.updated} updated, ${result.skipped} skipped\n`
+      );
+    }
+  );
+
+  addScopeOptions(
+    program.command('stats').description('Count the memories of each scope and category'),
+    true
+  ).action(async (options: MultiScopeOptions) => {
+    const config = storageConfig(options);
+    const memoryStorage = openStorage(options);
+    const lines: string[] = [];
+
+    for (const scope of memoryStorage.selectedScopes(options.scope).reverse()) {
+      const memories = await memoryStorage.retrieveAll(scope);
+      const categories = await memoryStorage.listCategories(scope);
+      const deleted = await memoryStorage.listDeleted(scope);
+      const snapshots = await memoryStorage.listSnapshots(scope);
+
+      lines.push(
+        `${scopeTitle(scope)} (${storageLocation(config, scope)}): ` +
+          `${countMemories(memories.length)} in ${countCategories(categories.length)}, ` +
+          `${deleted.length} in the trash, ${snapshots.length} snapshots`,
+        ...categories.map(
+          category =>
+            `  ${category}: ${memories.filter(memory => memory.category === category).length}`
+        )
+      );
+    }
+    process.stdout.write(`${lines.join('\n')}\n`);
+  });
+
+  addStorageOptions(
+    program
+      .command('doctor')
+      .description('Check that every storage location is writable and every file in them is valid')
+  ).action(async (options: StorageLocationOptions) => {
+    const config = storageConfig(options);
+    const memoryStorage = openStorage(options);
+    let errors = 0;
+
+    for (const scope of [...memoryStorage.scopes].reverse()) {
+      const location = storageLocation(config, scope);
+      const result = await diagnoseScope(memoryStorage, scope, location);
+      errors += result.errors;
+      process.stdout.write(
+        `${scopeTitle(scope)} storage: ${location}\n${result.lines.join('\n')}\n`
+      );
+    }
+
+    if (errors > 0) {
+      throw new Error(`Found ${errors} ${errors === 1 ? 'problem' : 'problems'}`);
+    }
+    process.stdout.write('No problems found\n');
+  });
+
+  return program;
+};
+
+// Run a CLI subcommand
+export const runCli = async (argv: string[]): Promise<void> => {
+  await createCli().parseAsync(argv);
+};
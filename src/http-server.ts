@@ -0,0 +1,317 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { randomUUID, timingSafeEqual } from 'crypto';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { logger } from './lib/logger.js';
+
+// Transports the server can be reached over
+export const TRANSPORTS = ['stdio', 'http', 'sse'] as const;
+
+export type TransportType = (typeof TRANSPORTS)[number];
+
+export interface HttpServerOptions {
+  // 'http' serves Streamable HTTP, 'sse' the older HTTP with Server-Sent Events transport
+  transport: Exclude<TransportType, 'stdio'>;
+  host: string;
+  // 0 picks a free port
+  port: number;
+  // Token clients must send as `Authorization: Bearer <token>`, no authentication when undefined
+  authToken?: string;
+  // Host names besides the loopback ones and the bound host that requests may name in their Origin
+  // and Host headers, such as the name of a reverse proxy
+  allowedHosts?: string[];
+  // Streamable HTTP sessions without requests for this long are closed, 30 minutes by default
+  sessionIdleTimeoutMs?: number;
+}
+
+export interface RunningHttpServer {
+  // URL clients connect to, the Streamable HTTP endpoint or the SSE stream
+  url: string;
+  close(): Promise<void>;
+}
+
+// Endpoint of the Streamable HTTP transport
+const MCP_PATH = '/mcp';
+
+// Endpoints of the SSE transport, the stream and where clients post their messages
+const SSE_PATH = '/sse';
+const SSE_MESSAGES_PATH = '/messages';
+
+// Clients may go away without ending their Streamable HTTP session, which is closed after being
+// idle this long
+export const DEFAULT_SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+
+// Longest time between checks for idle sessions
+const MAX_IDLE_CHECK_INTERVAL_MS = 60 * 1000;
+
+// A Streamable HTTP session, idle while it has no open requests, such as its event stream
+interface StreamableSession {
+  transport: StreamableHTTPServerTransport;
+  openRequests: number;
+  lastActive: number;
+}
+
+// Largest request body accepted
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+// Host names that always reach this machine
+const LOOPBACK_HOSTNAMES = ['localhost', '127.0.0.1', '[::1]'];
+
+// Whether a host only accepts connections from this machine
+export const isLoopbackHost = (host: string): boolean =>
+  host === 'localhost' || host === '::1' || host.startsWith('127.');
+
+// Host name of a host or address as URLs spell it, IPv6 addresses in brackets
+const toHostname = (host: string): string =>
+  host.includes(':') && !host.startsWith('[') ? `[${host.toLowerCase()}]` : host.toLowerCase();
+
+// Host name of the Origin or Host header of a request, undefined when it cannot be parsed
+const headerHostname = (value: string, isOrigin: boolean): string | undefined => {
+  try {
+    return new URL(isOrigin ? value : `http://${value}`).hostname;
+  } catch {
+    return undefined;
+  }
+};
+
+// Send a JSON-RPC error response outside of any session
+const sendError = (res: http.ServerResponse, status: number, message: string) => {
+  res
+    .writeHead(status, { 'Content-Type': 'application/json' })
+    .end(JSON.stringify({ jsonrpc: '2.0', error: { code: -32000, message }, id: null }));
+};
+
+// Why a request is refused as coming from a page of another site, undefined when it is allowed.
+// Browsers send the Origin of the page making a request, and a DNS rebinding attack makes them
+// send the attacker's host name in the Host header to a server on this machine.
+const forbiddenReason = (
+  req: http.IncomingMessage,
+  allowedHostnames: Set<string>,
+  checkHost: boolean
+): string | undefined => {
+  const { origin, host } = req.headers;
+  if (origin !== undefined && !allowedHostnames.has(headerHostname(origin, true) ?? '')) {
+    return 'Forbidden: Origin not allowed';
+  }
+  if (checkHost && !allowedHostnames.has(headerHostname(host ?? '', false) ?? '')) {
+    return 'Forbidden: Host not allowed';
+  }
+  return undefined;
+};
+
+// Whether a request carries the bearer token, compared in constant time
+const isAuthorized = (req: http.IncomingMessage, authToken: string | undefined): boolean => {
+  if (authToken === undefined) {
+    return true;
+  }
+
+  const expected = Buffer.from(`Bearer ${authToken}`);
+  const actual = Buffer.from(req.headers.authorization ?? '');
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+};
+
+// Read and parse a JSON request body
+const readJsonBody = async (req: http.IncomingMessage): Promise<unknown> => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) {
+      throw new Error('Request body too large');
+    }
+    chunks.push(chunk as Buffer);
+  }
+  return JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+};
+
+// Serve MCP over HTTP, connecting a new server from `createServer` for every client session.
+// All sessions share the storage behind the servers, so several clients can use one store.
+export const startHttpServer = async (
+  createServer: () => McpServer,
+  options: HttpServerOptions
+): Promise<RunningHttpServer> => {
+  const { transport, host, port, authToken } = options;
+  const allowedHostnames = new Set(
+    [...LOOPBACK_HOSTNAMES, host, ...(options.allowedHosts ?? [])].map(toHostname)
+  );
+  const idleTimeoutMs = options.sessionIdleTimeoutMs ?? DEFAULT_SESSION_IDLE_TIMEOUT_MS;
+  const streamableSessions = new Map<string, StreamableSession>();
+  const sseSessions = new Map<string, SSEServerTransport>();
+
+  // Requests of the Streamable HTTP transport, a session starts with an initialize request
+  const handleStreamable = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+    const sessionId = req.headers['mcp-session-id'];
+    const session = typeof sessionId === 'string' ? streamableSessions.get(sessionId) : undefined;
+    if (session) {
+      session.openRequests++;
+      res.on('close', () => {
+        session.openRequests--;
+        session.lastActive = Date.now();
+      });
+    }
+
+    if (req.method !== 'POST') {
+      if (!session) {
+        sendError(res, 400, 'Bad Request: No valid session ID provided');
+        return;
+      }
+      await session.transport.handleRequest(req, res);
+      return;
+    }
+
+    let body: unknown;
+    try {
+      body = await readJsonBody(req);
+    } catch (error) {
+      sendError(res, 400, `Parse error: ${error instanceof Error ? error.message : error}`);
+      return;
+    }
+
+    if (session) {
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+    if (sessionId !== undefined) {
+      sendError(res, 404, 'Session not found');
+      return;
+    }
+    if (!isInitializeRequest(body)) {
+      sendError(res, 400, 'Bad Request: No valid session ID provided');
+      return;
+    }
+
+    const sessionTransport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: id => {
+        streamableSessions.set(id, {
+          transport: sessionTransport,
+          openRequests: 0,
+          lastActive: Date.now(),
+        });
+        logger.info(`HTTP session started: ${id}`);
+      },
+    });
+    await createServer().connect(sessionTransport);
+    // Connecting replaces the close handler of the transport, so it is wrapped afterwards
+    const closeServer = sessionTransport.onclose;
+    sessionTransport.onclose = () => {
+      closeServer?.();
+      if (sessionTransport.sessionId !== undefined) {
+        streamableSessions.delete(sessionTransport.sessionId);
+        logger.info(`HTTP session closed: ${sessionTransport.sessionId}`);
+      }
+    };
+    await sessionTransport.handleRequest(req, res, body);
+  };
+
+  // Requests of the SSE transport, a session lasts as long as its event stream
+  const handleSse = async (req: http.IncomingMessage, res: http.ServerResponse, url: URL) => {
+    if (req.method === 'GET' && url.pathname === SSE_PATH) {
+      const sessionTransport = new SSEServerTransport(SSE_MESSAGES_PATH, res);
+      sseSessions.set(sessionTransport.sessionId, sessionTransport);
+      logger.info(`SSE session started: ${sessionTransport.sessionId}`);
+      res.on('close', () => {
+        sseSessions.delete(sessionTransport.sessionId);
+        logger.info(`SSE session closed: ${sessionTransport.sessionId}`);
+      });
+      await createServer().connect(sessionTransport);
+      return;
+    }
+
+    if (req.method === 'POST' && url.pathname === SSE_MESSAGES_PATH) {
+      const session = sseSessions.get(url.searchParams.get('sessionId') ?? '');
+      if (!session) {
+        sendError(res, 404, 'Session not found');
+        return;
+      }
+      await session.handlePostMessage(req, res);
+      return;
+    }
+
+    sendError(res, 404, 'Not found');
+  };
+
+  const httpServer = http.createServer((req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+
+    // Listening on other addresses is already a choice to be reached by other host names, only
+    // the origin of browser requests is checked then
+    const forbidden = forbiddenReason(req, allowedHostnames, isLoopbackHost(host));
+    if (forbidden !== undefined) {
+      sendError(res, 403, forbidden);
+      return;
+    }
+    if (!isAuthorized(req, authToken)) {
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      sendError(res, 401, 'Unauthorized');
+      return;
+    }
+
+    const route = async () => {
+      if (transport === 'sse') {
+        return handleSse(req, res, url);
+      }
+      if (url.pathname === MCP_PATH) {
+        return handleStreamable(req, res);
+      }
+      sendError(res, 404, 'Not found');
+    };
+
+    route().catch(error => {
+      logger.error(`Error handling ${req.method} ${url.pathname}:`, error);
+      if (!res.headersSent) {
+        sendError(res, 500, 'Internal server error');
+      }
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(port, host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  // Close the sessions of clients that went away without ending them, which would otherwise keep
+  // their server and its storage listener
+  const idleCheck = setInterval(
+    () => {
+      const cutoff = Date.now() - idleTimeoutMs;
+      for (const [id, session] of streamableSessions) {
+        if (session.openRequests > 0 || session.lastActive > cutoff) continue;
+        logger.info(`HTTP session idle, closing it: ${id}`);
+        session.transport.close().catch(error => {
+          logger.error(`Error closing HTTP session ${id}:`, error);
+        });
+      }
+    },
+    Math.min(idleTimeoutMs, MAX_IDLE_CHECK_INTERVAL_MS)
+  ).unref();
+
+  const address = httpServer.address() as AddressInfo;
+  const hostname = address.family === 'IPv6' ? `[${address.address}]` : address.address;
+  const endpoint = transport === 'http' ? MCP_PATH : SSE_PATH;
+
+  return {
+    url: `http://${hostname}:${address.port}${endpoint}`,
+    close: async () => {
+      clearInterval(idleCheck);
+      for (const session of [
+        ...[...streamableSessions.values()].map(({ transport }) => transport),
+        ...sseSessions.values(),
+      ]) {
+        await session.close();
+      }
+      const closed = new Promise<void>((resolve, reject) =>
+        httpServer.close(error => (error ? reject(error) : resolve()))
+      );
+      // Idle keep-alive connections would otherwise hold the server open
+      httpServer.closeAllConnections();
+      await closed;
+    },
+  };
+};
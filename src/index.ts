@@ -1,26 +1,27 @@
 #!/usr/bin/env node
 
-import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
-import { z } from 'zod';
-import { logger } from './lib/logger.js';
+import { CommanderError } from 'commander';
+import { isCliCommand, runCli } from './cli.js';
+import { isLoopbackHost, startHttpServer } from './http-server.js';
+import { configureLogger, logger } from './lib/logger.js';
+import { renderMemoryContext } from './lib/memory-context.js';
+import { EXPIRY_SWEEP_INTERVAL_MS } from './lib/memory-expiry.js';
 import { MemoryStorage } from './lib/memory-storage.js';
-import { getMemoryConfig, initializeStorage } from './memory-config.js';
-import { ServerOptions } from '@modelcontextprotocol/sdk/server/index.js';
-
-const memoryConfig = getMemoryConfig();
-
-initializeStorage(memoryConfig);
-
-const memoryStorage = new MemoryStorage(
-  memoryConfig.globalStorageLocation,
-  memoryConfig.localStorageLocation
-);
-
-// Display server information
-logger.info('MCP Memory Server started');
-logger.info(`Global storage location: ${memoryConfig.globalStorageLocation}`);
-logger.info(`Local storage location: ${memoryConfig.localStorageLocation}`);
+import {
+  ConfigError,
+  DEFAULT_HOST,
+  DEFAULT_PORT,
+  MemoryConfig,
+  createEmbeddingProvider,
+  createStorageOptions,
+  getMemoryConfig,
+  initializeStorage,
+} from './memory-config.js';
+import { initializeServer } from './server.js';
+
+// How often the history is pruned after startup
+const HISTORY_PRUNE_INTERVAL_MS = 24 * 60 * 60 * 1000;
 
 // Detailed instructions
 const instructions = `  
@@ -55,6 +56,10 @@ The protocol is:
      - Global storage (~/.config/mcp-memory) for user-wide data.  
    - Use the remember_memory tool to store the information.  
      - \`remember_memory(category, data, tags, is_global)\`  
+The same workflows are available as prompts the user can run:  
+- save_preference: store a preference, checking related memories first  
+- recall_project_context: load what is saved about the current project  
+- review_memories: find outdated, duplicated or conflicting memories  
 Keywords that trigger memory tools:  
 - "remember"  
 - "forget"  
@@ -71,255 +76,176 @@ Suggest the user to use memory tools when:
 - When the user executes a command and would benefit from remembering the exact command  
 `;
 
-const initializeServer = (options: ServerOptions) => {
-  // MCP server configuration
-  const server = new McpServer(
-    {
-      name: '@mkusaka/mcp-server-memory',
-      version: '0.0.3',
-    },
-    options
-  );
+// Load existing memories and add to instructions on startup
+async function loadExistingMemories(
+  memoryStorage: MemoryStorage,
+  memoryConfig: MemoryConfig
+): Promise<string> {
+  if (memoryConfig.maxStartupMemories === 0) {
+    return `${instructions}
+Saved memories are not included here. Call the get_memory_context tool to load them when they may be relevant.
+`;
+  }
 
-  // Define memory tools
-  server.tool(
-    'remember_memory',
-    'Stores a memory with optional tags in a specified category',
-    {
-      category: z.string().min(1).describe('The category to store the memory in'),
-      data: z.string().min(1).describe('The data to store in memory'),
-      tags: z
-        .array(z.string())
-        .optional()
-        .default([])
-        .describe('Optional tags for categorizing the memory'),
-      is_global: z.boolean().describe('Whether to store in global or local memory'),
-    },
-    async ({ category, data, tags, is_global }) => {
-      try {
-        logger.info(`Storing memory in category: ${category}, isGlobal: ${is_global}`);
+  const memoriesFollowUpInstructions = `
+**Here are the user's saved memories as of server start:**
+Please keep this information in mind when answering future questions.
+Do not bring up memories unless relevant.
+Note: this is a snapshot taken when the server started. Memories saved, updated or removed since then are not reflected here; call the get_memory_context tool for the current memories.
+`;
 
-        await memoryStorage.remember(category, data, tags || [], is_global);
+  try {
+    const context = await renderMemoryContext(memoryStorage, {
+      maxMemories: memoryConfig.maxStartupMemories,
+    });
+    return `${instructions}\n${memoriesFollowUpInstructions}\n${context}\n`;
+  } catch (error) {
+    logger.error('Error loading existing memories:', error);
+    return `${instructions}\n${memoriesFollowUpInstructions}`;
+  }
+}
 
-        return {
-          content: [
-            {
-              type: 'text',
-              text: `Stored memory in category: ${category}`,
-            },
-          ],
-        };
-      } catch (error) {
-        logger.error('Error storing memory:', error);
-        return {
-          content: [
-            {
-              type: 'text',
-              text: `Error: ${error instanceof Error ? error.message : String(error)}`,
-            },
-          ],
-          isError: true,
-        };
-      }
+// Move expired memories to the trash, logging failures as the next sweep retries
+const sweepExpiredMemories = async (memoryStorage: MemoryStorage): Promise<void> => {
+  try {
+    const swept = await memoryStorage.sweepExpired();
+    if (swept.length > 0) {
+      logger.info(`Moved ${swept.length} expired memories to the trash`);
     }
-  );
-
-  server.tool(
-    'retrieve_memories',
-    'Retrieves all memories from a specified category',
-    {
-      category: z
-        .string()
-        .min(1)
-        .describe("The category to retrieve memories from, use '*' for all categories"),
-      is_global: z.boolean().describe('Whether to retrieve from global or local memory'),
-    },
-    async ({ category, is_global }) => {
-      try {
-        logger.info(`Retrieving memories from category: ${category}, isGlobal: ${is_global}`);
-
-        let memories;
-        if (category === '*') {
-          memories = await memoryStorage.retrieveAll(is_global);
-        } else {
-          memories = await memoryStorage.retrieve(category, is_global);
-        }
+  } catch (error) {
+    logger.error('Error sweeping expired memories:', error);
+  }
+};
 
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify(memories, null, 2),
-            },
-          ],
-        };
-      } catch (error) {
-        logger.error('Error retrieving memories:', error);
-        return {
-          content: [
-            {
-              type: 'text',
-              text: `Error: ${error instanceof Error ? error.message : String(error)}`,
-            },
-          ],
-          isError: true,
-        };
-      }
+// Drop changes and snapshots past the history retention period, logging failures as the next
+// run retries
+const pruneMemoryHistory = async (memoryStorage: MemoryStorage): Promise<void> => {
+  try {
+    const pruned = await memoryStorage.pruneHistory();
+    if (pruned.changes > 0 || pruned.snapshots > 0) {
+      logger.info(
+        `Dropped ${pruned.changes} changes and ${pruned.snapshots} snapshots past the history retention period`
+      );
     }
-  );
+  } catch (error) {
+    logger.error('Error pruning the memory history:', error);
+  }
+};
 
-  server.tool(
-    'remove_memory_category',
-    'Removes all memories within a specified category',
-    {
-      category: z.string().min(1).describe("The category to remove, use '*' for all categories"),
-      is_global: z.boolean().describe('Whether to remove from global or local memory'),
-    },
-    async ({ category, is_global }) => {
-      try {
-        logger.info(`Removing memory category: ${category}, isGlobal: ${is_global}`);
+// Start the MCP server on the configured transport
+const startServer = async () => {
+  const memoryConfig = getMemoryConfig();
+  configureLogger({ file: memoryConfig.logFile, level: memoryConfig.logLevel });
 
-        if (category === '*') {
-          await memoryStorage.clearAllGlobalOrLocalMemories(is_global);
-          return {
-            content: [
-              {
-                type: 'text',
-                text: `Cleared all ${is_global ? 'global' : 'local'} memory categories`,
-              },
-            ],
-          };
-        } else {
-          await memoryStorage.clearMemory(category, is_global);
-          return {
-            content: [
-              {
-                type: 'text',
-                text: `Cleared memories in category: ${category}`,
-              },
-            ],
-          };
-        }
-      } catch (error) {
-        logger.error('Error removing memory category:', error);
-        return {
-          content: [
-            {
-              type: 'text',
-              text: `Error: ${error instanceof Error ? error.message : String(error)}`,
-            },
-          ],
-          isError: true,
-        };
-      }
-    }
-  );
+  initializeStorage(memoryConfig);
 
-  server.tool(
-    'remove_specific_memory',
-    'Removes a specific memory within a specified category',
+  const memoryStorage = new MemoryStorage(
+    memoryConfig.globalStorageLocation,
+    memoryConfig.localStorageLocation,
     {
-      category: z.string().min(1).describe('The category containing the memory to remove'),
-      memory_content: z.string().min(1).describe('Content of the memory to remove (partial match)'),
-      is_global: z.boolean().describe('Whether to remove from global or local memory'),
-    },
-    async ({ category, memory_content, is_global }) => {
-      try {
-        logger.info(`Removing specific memory from category: ${category}, isGlobal: ${is_global}`);
-
-        await memoryStorage.removeSpecificMemory(category, memory_content, is_global);
-
-        return {
-          content: [
-            {
-              type: 'text',
-              text: `Removed specific memory from category: ${category}`,
-            },
-          ],
-        };
-      } catch (error) {
-        logger.error('Error removing specific memory:', error);
-        return {
-          content: [
-            {
-              type: 'text',
-              text: `Error: ${error instanceof Error ? error.message : String(error)}`,
-            },
-          ],
-          isError: true,
-        };
-      }
+      ...createStorageOptions(memoryConfig),
+      embeddingProvider: await createEmbeddingProvider(memoryConfig),
     }
   );
 
-  return server;
-};
-
-// Load existing memories and add to instructions on startup
-async function loadExistingMemories(): Promise<string> {
-  let updatedInstructions = instructions;
-
-  const memoriesFollowUpInstructions = `  
-**Here are the user's currently saved memories:**  
-Please keep this information in mind when answering future questions.  
-Do not bring up memories unless relevant.  
-Note: if the user has not saved any memories, this section will be empty.  
-Note: if the user removes a memory that was previously loaded into the system, please remove it from the system instructions.  
-`;
-
-  updatedInstructions += '\\n\\n' + memoriesFollowUpInstructions;
+  // Display server information
+  logger.info('MCP Memory Server started');
+  logger.info(`Global storage location: ${memoryConfig.globalStorageLocation}`);
+  logger.info(`Local storage location: ${memoryConfig.localStorageLocation}`);
+  for (const [name, location] of Object.entries(memoryConfig.namedScopes ?? {})) {
+    logger.info(`Storage location of scope ${name}: ${location}`);
+  }
+  if (!memoryConfig.enablePersistence) {
+    logger.info('Persistence disabled, memories are kept in memory only');
+  }
+  if (memoryConfig.semanticSearch) {
+    logger.info('Semantic search enabled');
+  }
 
-  try {
-    // Load global memories
-    const globalMemories = await memoryStorage.retrieveAll(true);
-    if (Object.keys(globalMemories).length > 0) {
-      updatedInstructions += '\\n\\nGlobal Memories:\\n';
-      for (const [category, memories] of Object.entries(globalMemories)) {
-        updatedInstructions += `\\nCategory: ${category}\\n`;
-        for (const memory of memories) {
-          updatedInstructions += `- ${memory}\\n`;
+  // Sweep expired memories in the background, reads leave them out in between
+  setInterval(() => sweepExpiredMemories(memoryStorage), EXPIRY_SWEEP_INTERVAL_MS).unref();
+  // The history is only appended to, prune it at startup and then daily
+  setInterval(() => pruneMemoryHistory(memoryStorage), HISTORY_PRUNE_INTERVAL_MS).unref();
+
+  // Watch the storage for external edits, sweep expired memories and prune the history, then
+  // load existing memories and add to instructions
+  memoryStorage
+    .watch()
+    .catch(error => {
+      logger.warn('Not watching the storage, memories edited by hand are read from disk:', error);
+    })
+    .then(() => sweepExpiredMemories(memoryStorage))
+    .then(() => pruneMemoryHistory(memoryStorage))
+    .then(() => loadExistingMemories(memoryStorage, memoryConfig))
+    .then(updatedInstructions => {
+      const createServer = () =>
+        initializeServer(memoryStorage, {
+          instructions: updatedInstructions,
+          requireConfirmation: memoryConfig.requireConfirmation,
+          onDuplicate: memoryConfig.onDuplicate,
+        });
+
+      if (memoryConfig.transport === 'http' || memoryConfig.transport === 'sse') {
+        const host = memoryConfig.host ?? DEFAULT_HOST;
+        if (memoryConfig.authToken === undefined && !isLoopbackHost(host)) {
+          logger.warn(
+            `Listening on ${host} without --auth-token, anyone reaching it can use the memories`
+          );
         }
-      }
-    }
 
-    // Load local memories
-    const localMemories = await memoryStorage.retrieveAll(false);
-    if (Object.keys(localMemories).length > 0) {
-      updatedInstructions += '\\n\\nLocal Memories:\\n';
-      for (const [category, memories] of Object.entries(localMemories)) {
-        updatedInstructions += `\\nCategory: ${category}\\n`;
-        for (const memory of memories) {
-          updatedInstructions += `- ${memory}\\n`;
-        }
+        // Every client session gets its own server, all of them sharing the storage
+        startHttpServer(createServer, {
+          transport: memoryConfig.transport,
+          host,
+          port: memoryConfig.port ?? DEFAULT_PORT,
+          authToken: memoryConfig.authToken,
+          allowedHosts: memoryConfig.allowedHosts,
+        })
+          .then(({ url }) => {
+            logger.info(`MCP Memory Server ready at ${url}`);
+          })
+          .catch(error => {
+            logger.error('Failed to start HTTP server:', error);
+            process.exit(1);
+          });
+        return;
       }
-    }
-  } catch (error) {
-    logger.error('Error loading existing memories:', error);
-  }
-
-  return updatedInstructions;
-}
 
-// Load existing memories and add to instructions
-loadExistingMemories()
-  .then(updatedInstructions => {
-    const server = initializeServer({
-      instructions: updatedInstructions,
+      // Start the server
+      const server = createServer();
+      const transport = new StdioServerTransport();
+      server
+        .connect(transport)
+        .then(() => {
+          logger.info('MCP Memory Server ready');
+        })
+        .catch(error => {
+          logger.error('Failed to connect server:', error);
+          process.exit(1);
+        });
+    })
+    .catch(error => {
+      logger.error('Failed to load existing memories:', error);
+      process.exit(1);
     });
+};
 
-    // Start the server
-    const transport = new StdioServerTransport();
-    server
-      .connect(transport)
-      .then(() => {
-        logger.info('MCP Memory Server ready');
-      })
-      .catch(error => {
-        logger.error('Failed to connect server:', error);
-        process.exit(1);
-      });
-  })
-  .catch(error => {
-    logger.error('Failed to load existing memories:', error);
+// CLI subcommands manage the memories directly, without starting the server
+if (isCliCommand(process.argv)) {
+  runCli(process.argv).catch(error => {
+    // Commander has already printed its own errors
+    if (!(error instanceof CommanderError)) {
+      console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    process.exitCode = error instanceof CommanderError ? error.exitCode : 1;
+  });
+} else {
+  startServer().catch(error => {
+    // The log file may not be the one the user looks at yet
+    if (error instanceof ConfigError) {
+      console.error(`Error: ${error.message}`);
+    }
+    logger.error('Failed to start server:', error);
     process.exit(1);
   });
+}
@@ -0,0 +1,22 @@
+import { randomUUID } from 'crypto';
+import fs from 'fs';
+
+// Replace a file's content so readers and crashes only ever see the old or the new content.
+// The content is written and flushed to a temporary file next to the target, then renamed over it.
+export const writeFileAtomic = async (filePath: string, content: string): Promise<void> => {
+  const tempPath = `${filePath}.${process.pid}.${randomUUID().slice(0, 8)}.tmp`;
+
+  try {
+    const handle = await fs.promises.open(tempPath, 'w');
+    try {
+      await handle.writeFile(content);
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+    await fs.promises.rename(tempPath, filePath);
+  } catch (error) {
+    await fs.promises.rm(tempPath, { force: true });
+    throw error;
+  }
+};
@@ -0,0 +1,72 @@
+import { createHash } from 'crypto';
+
+// Longest category name accepted, in characters
+export const MAX_CATEGORY_LENGTH = 64;
+
+// Category argument that tools treat as "every category"
+export const ALL_CATEGORIES = '*';
+
+// Names that cannot be used as categories, device names are reserved on Windows
+const RESERVED_CATEGORIES = new Set([
+  ALL_CATEGORIES,
+  'con',
+  'prn',
+  'aux',
+  'nul',
+  ...Array.from({ length: 9 }, (_, index) => `com${index + 1}`),
+  ...Array.from({ length: 9 }, (_, index) => `lpt${index + 1}`),
+]);
+
+// Letters and numbers in any script, plus spaces, '.', '_' and '-' after the first character
+const CATEGORY_PATTERN = /^[\p{L}\p{N}][\p{L}\p{M}\p{N} ._-]*$/u;
+
+// Category names that can be used as a file name as they are
+const PLAIN_FILE_NAME_PATTERN = /^[a-z0-9][a-z0-9._-]*$/;
+
+export class InvalidCategoryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidCategoryError';
+  }
+}
+
+// Validate a category name and return its canonical form (NFC, trimmed, lowercase)
+export const normalizeCategory = (category: string): string => {
+  const normalized = category.normalize('NFC').trim().toLowerCase();
+
+  if (!normalized) {
+    throw new InvalidCategoryError('Invalid category: name must not be empty');
+  }
+  if ([...normalized].length > MAX_CATEGORY_LENGTH) {
+    throw new InvalidCategoryError(
+      `Invalid category "${category}": name must be at most ${MAX_CATEGORY_LENGTH} characters`
+    );
+  }
+  if (RESERVED_CATEGORIES.has(normalized)) {
+    throw new InvalidCategoryError(`Invalid category "${category}": name is reserved`);
+  }
+  if (!CATEGORY_PATTERN.test(normalized) || normalized.endsWith('.')) {
+    throw new InvalidCategoryError(
+      `Invalid category "${category}": use letters, numbers, spaces, '.', '_' or '-', ` +
+        `starting with a letter or number and not ending with '.'`
+    );
+  }
+
+  return normalized;
+};
+
+// Map a canonical category name to a file name stem that is safe on every platform.
+// Names outside plain ASCII get a slug plus a hash, the category file header keeps the real name.
+export const categoryToFileName = (category: string): string => {
+  if (PLAIN_FILE_NAME_PATTERN.test(category)) {
+    return category;
+  }
+
+  const slug = category
+    .normalize('NFKD')
+    .replace(/[^a-z0-9._-]+/g, '-')
+    .replace(/^[^a-z0-9]+|[^a-z0-9]+$/g, '')
+    .slice(0, 32);
+  const hash = createHash('sha256').update(category).digest('hex').slice(0, 12);
+  return `${slug}~${hash}`;
+};
@@ -0,0 +1,49 @@
+import { randomUUID } from 'crypto';
+
+// How long a confirmation token can be used after it was issued
+const CONFIRMATION_TTL_MS = 5 * 60 * 1000;
+
+interface PendingConfirmation {
+  action: string;
+  ids: string[];
+  expiresAt: number;
+}
+
+// Same memories, in any order
+const sameIds = (a: string[], b: string[]): boolean =>
+  a.length === b.length && [...a].sort().join('\n') === [...b].sort().join('\n');
+
+// Tokens confirming a destructive action on an exact set of memories. A token is used up by
+// the first attempt to confirm with it, and is rejected once the memories it covers change.
+export class ConfirmationStore {
+  private pending = new Map<string, PendingConfirmation>();
+
+  // Issue a token for an action on the given memories
+  issue(action: string, ids: string[]): string {
+    this.removeExpired();
+
+    const token = randomUUID();
+    this.pending.set(token, { action, ids, expiresAt: Date.now() + CONFIRMATION_TTL_MS });
+    return token;
+  }
+
+  // Use up a token, true when it was issued for this action on these memories and has not expired
+  consume(token: string, action: string, ids: string[]): boolean {
+    this.removeExpired();
+
+    const confirmation = this.pending.get(token);
+    this.pending.delete(token);
+    return (
+      confirmation !== undefined && confirmation.action === action && sameIds(confirmation.ids, ids)
+    );
+  }
+
+  private removeExpired(): void {
+    const now = Date.now();
+    for (const [token, confirmation] of this.pending) {
+      if (confirmation.expiresAt < now) {
+        this.pending.delete(token);
+      }
+    }
+  }
+}
@@ -0,0 +1,94 @@
+import path from 'path';
+import { pathToFileURL } from 'url';
+
+// Turns texts into vectors whose cosine similarity reflects how related the texts are
+export interface EmbeddingProvider {
+  // Identifies the vectors produced, stored vectors of another provider are computed again
+  readonly id: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+// Dimensions of the built-in provider's vectors
+const DEFAULT_DIMENSIONS = 256;
+
+// Weight of a whole word relative to one of its character trigrams
+const WORD_WEIGHT = 2;
+
+// FNV-1a hash of a feature
+const hashFeature = (feature: string): number => {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < feature.length; index++) {
+    hash ^= feature.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// Offline provider hashing words and their character trigrams into a fixed number of dimensions.
+// It matches shared words and word forms ("runner", "runners"), not synonyms.
+export class HashedNgramEmbeddingProvider implements EmbeddingProvider {
+  readonly id: string;
+
+  constructor(private dimensions = DEFAULT_DIMENSIONS) {
+    this.id = `hashed-ngram-${dimensions}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedText(text));
+  }
+
+  private embedText(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const add = (feature: string, weight: number) => {
+      const hash = hashFeature(feature);
+      // The top bit picks the sign, so unrelated features colliding tend to cancel out
+      vector[hash % this.dimensions] += hash & 0x80000000 ? -weight : weight;
+    };
+
+    for (const word of text.toLowerCase().split(/[^\p{L}\p{N}]+/u)) {
+      if (!word) continue;
+      add(`w:${word}`, WORD_WEIGHT);
+
+      const padded = [...`^${word}$`];
+      for (let index = 0; index + 3 <= padded.length; index++) {
+        add(`t:${padded.slice(index, index + 3).join('')}`, 1);
+      }
+    }
+
+    const norm = Math.hypot(...vector);
+    return norm === 0 ? vector : vector.map(value => value / norm);
+  }
+}
+
+// Cosine similarity of two vectors, 0 when either is all zeros
+export const cosineSimilarity = (a: number[], b: number[]): number => {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let index = 0; index < Math.min(a.length, b.length); index++) {
+    dot += a[index] * b[index];
+    normA += a[index] * a[index];
+    normB += b[index] * b[index];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+};
+
+// Load an external provider from a module, whose default export is a provider or a function
+// returning one
+export const loadEmbeddingProvider = async (modulePath: string): Promise<EmbeddingProvider> => {
+  const module = await import(pathToFileURL(path.resolve(modulePath)).href);
+  const exported = module.default;
+  const provider: unknown = typeof exported === 'function' ? await exported() : exported;
+
+  if (
+    typeof provider !== 'object' ||
+    provider === null ||
+    typeof (provider as EmbeddingProvider).id !== 'string' ||
+    typeof (provider as EmbeddingProvider).embed !== 'function'
+  ) {
+    throw new Error(
+      `Embedding provider ${modulePath} must export an object with an id and an embed function`
+    );
+  }
+  return provider as EmbeddingProvider;
+};
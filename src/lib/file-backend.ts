@@ -0,0 +1,421 @@
+import fs from 'fs';
+import path from 'path';
+import { writeFileAtomic } from './atomic-write.js';
+import { categoryToFileName } from './category-policy.js';
+import { withFileLock } from './file-lock.js';
+import { migrateLegacyStorage } from './legacy-migration.js';
+import { logger } from './logger.js';
+import {
+  MEMORY_FILE_EXTENSION,
+  StoredMemory,
+  cloneMemories,
+  parseCategoryFile,
+  serializeCategoryFile,
+  serializeHeader,
+  serializeMemory,
+} from './memory-format.js';
+import { MemoryScope, StorageBackend, StorageChangeListener } from './storage-backend.js';
+
+// Directory created inside a storage directory while a process mutates it
+const LOCK_DIR_NAME = '.lock';
+
+// Wait for file events to settle before reloading, editors often write a file several times
+const DEFAULT_WATCH_DEBOUNCE_MS = 100;
+
+export interface FileBackendOptions {
+  watchDebounceMs?: number;
+  // Storage directories of the named scopes besides global and local
+  scopes?: Record<string, string>;
+}
+
+// A parsed category file, kept in the index while watching
+interface IndexedCategory {
+  category: string;
+  content: string;
+  memories: StoredMemory[];
+}
+
+// Bytes read at a time while looking for the last line break of a document
+const LINE_SEARCH_CHUNK_BYTES = 4096;
+
+// Cut off a partial last line of a file, left by an interrupted append, searching back from its
+// end so the whole file is not read
+const truncatePartialLine = async (filePath: string): Promise<void> => {
+  const handle = await fs.promises.open(filePath, 'r+');
+  try {
+    const { size } = await handle.stat();
+    const buffer = Buffer.alloc(LINE_SEARCH_CHUNK_BYTES);
+    let end = size;
+    while (end > 0) {
+      const start = Math.max(0, end - buffer.length);
+      const { bytesRead } = await handle.read(buffer, 0, end - start, start);
+      const lineBreak = buffer.subarray(0, bytesRead).lastIndexOf('\n');
+      if (lineBreak !== -1) {
+        end = start + lineBreak + 1;
+        break;
+      }
+      end = start;
+    }
+    if (end < size) {
+      await handle.truncate(end);
+    }
+  } finally {
+    await handle.close();
+  }
+};
+
+// IDs of the memories added, changed or removed between two versions of a category
+const changedIds = (before: StoredMemory[], after: StoredMemory[]): string[] => {
+  const previous = new Map(before.map(memory => [memory.id, JSON.stringify(memory)]));
+  const current = new Map(after.map(memory => [memory.id, JSON.stringify(memory)]));
+  const ids = new Set<string>();
+
+  for (const [id, memory] of current) {
+    if (previous.get(id) !== memory) ids.add(id);
+  }
+  for (const id of previous.keys()) {
+    if (!current.has(id)) ids.add(id);
+  }
+  return [...ids];
+};
+
+// Stores each category as a JSON Lines file in the scope's storage directory.
+// While watching, reads are served from an index of parsed files kept fresh by a file watcher.
+export class FileBackend implements StorageBackend {
+  private migrations = new Map<string, Promise<void>>();
+  // Parsed category files by file name, per watched scope
+  private indexes = new Map<MemoryScope, Map<string, IndexedCategory>>();
+  // Scopes locked by a mutation in this process, which must see the files as they are on disk
+  private locked = new Set<MemoryScope>();
+  private watchDebounceMs: number;
+  private namedScopes: Record<string, string>;
+
+  constructor(
+    private globalStorageLocation: string,
+    private localStorageLocation: string,
+    options: FileBackendOptions = {}
+  ) {
+    this.watchDebounceMs = options.watchDebounceMs ?? DEFAULT_WATCH_DEBOUNCE_MS;
+    this.namedScopes = options.scopes ?? {};
+  }
+
+  // Get storage directory
+  private getBaseDir(scope: MemoryScope): string {
+    if (scope === 'global') return this.globalStorageLocation;
+    if (scope === 'local') return this.localStorageLocation;
+
+    const baseDir = this.namedScopes[scope];
+    if (baseDir === undefined) {
+      throw new Error(`Unknown scope: ${scope}`);
+    }
+    return baseDir;
+  }
+
+  // Get memory file name
+  private getMemoryFileName(category: string): string {
+    return `${categoryToFileName(category)}${MEMORY_FILE_EXTENSION}`;
+  }
+
+  // Get memory file path
+  private getMemoryFilePath(scope: MemoryScope, category: string): string {
+    return path.join(this.getBaseDir(scope), this.getMemoryFileName(category));
+  }
+
+  // Get the path of an auxiliary document, a hidden file so it is never taken for a category
+  private getDocumentPath(scope: MemoryScope, name: string): string {
+    return path.join(this.getBaseDir(scope), `.${name}`);
+  }
+
+  // Index of a scope that reads can be served from
+  private readableIndex(scope: MemoryScope): Map<string, IndexedCategory> | undefined {
+    return this.locked.has(scope) ? undefined : this.indexes.get(scope);
+  }
+
+  // Record a category file's content after this backend wrote it
+  private updateIndex(scope: MemoryScope, fileName: string, content?: string): void {
+    const index = this.indexes.get(scope);
+    if (!index) return;
+
+    if (content === undefined) {
+      index.delete(fileName);
+      return;
+    }
+    const { category, memories } = parseCategoryFile(content, fileName);
+    index.set(fileName, { category, content, memories });
+  }
+
+  // Read and parse a category file for the index, undefined when it is missing or invalid
+  private async loadFile(
+    scope: MemoryScope,
+    fileName: string
+  ): Promise<IndexedCategory | undefined> {
+    const filePath = path.join(this.getBaseDir(scope), fileName);
+
+    try {
+      const content = await fs.promises.readFile(filePath, 'utf-8');
+      const { category, memories } = parseCategoryFile(content, filePath);
+      return { category, content, memories };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        // Left out of the index, so reading the category reports the error
+        logger.warn(`Could not reload ${filePath}:`, error);
+      }
+      return undefined;
+    }
+  }
+
+  // Reload changed files into the index, reporting the categories whose content changed
+  private async reload(
+    scope: MemoryScope,
+    fileNames: string[],
+    listener: StorageChangeListener
+  ): Promise<void> {
+    for (const fileName of fileNames) {
+      const index = this.indexes.get(scope);
+      if (!index) return;
+
+      const previous = index.get(fileName);
+      const next = await this.loadFile(scope, fileName);
+      if (previous?.content === next?.content) continue;
+
+      if (next) {
+        index.set(fileName, next);
+      } else {
+        index.delete(fileName);
+      }
+
+      const category = next?.category ?? previous?.category;
+      if (category !== undefined) {
+        listener({
+          scope,
+          category,
+          ids: changedIds(previous?.memories ?? [], next?.memories ?? []),
+        });
+      }
+    }
+  }
+
+  // Hold the storage directory's lock while running `fn`
+  private async lock<T>(scope: MemoryScope, fn: () => Promise<T>): Promise<T> {
+    const baseDir = this.getBaseDir(scope);
+    await fs.promises.mkdir(baseDir, { recursive: true });
+    return withFileLock(path.join(baseDir, LOCK_DIR_NAME), fn);
+  }
+
+  // Migrate legacy `.txt` category files once per storage directory
+  private ensureMigrated(scope: MemoryScope): Promise<void> {
+    const baseDir = this.getBaseDir(scope);
+    let migration = this.migrations.get(baseDir);
+
+    if (!migration) {
+      // Nothing to migrate in a directory that does not exist yet
+      const migrate = fs.existsSync(baseDir)
+        ? this.lock(scope, () => migrateLegacyStorage(baseDir))
+        : Promise.resolve([]);
+      migration = migrate.then(categories => {
+        if (categories.length > 0) {
+          logger.info(`Migrated legacy memory categories in ${baseDir}: ${categories.join(', ')}`);
+        }
+      });
+      this.migrations.set(baseDir, migration);
+    }
+    return migration;
+  }
+
+  async listCategories(scope: MemoryScope): Promise<string[]> {
+    const index = this.readableIndex(scope);
+    if (index) {
+      return [...index.values()].map(entry => entry.category).sort();
+    }
+
+    await this.ensureMigrated(scope);
+
+    const baseDir = this.getBaseDir(scope);
+
+    if (!fs.existsSync(baseDir)) {
+      return [];
+    }
+
+    const categories: string[] = [];
+    for (const file of await fs.promises.readdir(baseDir)) {
+      if (!file.endsWith(MEMORY_FILE_EXTENSION)) continue;
+
+      const stem = file.slice(0, -MEMORY_FILE_EXTENSION.length);
+      if (!stem.includes('~')) {
+        categories.push(stem);
+        continue;
+      }
+
+      // Hashed file names only identify the category, the header holds its name
+      const filePath = path.join(baseDir, file);
+      const content = await fs.promises.readFile(filePath, 'utf-8');
+      categories.push(parseCategoryFile(content, filePath).category);
+    }
+    return categories.sort();
+  }
+
+  async readCategory(scope: MemoryScope, category: string): Promise<StoredMemory[]> {
+    const indexed = this.readableIndex(scope)?.get(this.getMemoryFileName(category));
+    if (indexed) {
+      return cloneMemories(indexed.memories);
+    }
+
+    await this.ensureMigrated(scope);
+
+    const filePath = this.getMemoryFilePath(scope, category);
+
+    if (!fs.existsSync(filePath)) {
+      return [];
+    }
+
+    const content = await fs.promises.readFile(filePath, 'utf-8');
+    return parseCategoryFile(content, filePath).memories;
+  }
+
+  async writeCategory(
+    scope: MemoryScope,
+    category: string,
+    memories: StoredMemory[]
+  ): Promise<void> {
+    await this.ensureMigrated(scope);
+    await fs.promises.mkdir(this.getBaseDir(scope), { recursive: true });
+
+    const content = serializeCategoryFile(category, memories);
+    await writeFileAtomic(this.getMemoryFilePath(scope, category), content);
+    this.updateIndex(scope, this.getMemoryFileName(category), content);
+  }
+
+  async appendMemory(scope: MemoryScope, category: string, memory: StoredMemory): Promise<void> {
+    await this.ensureMigrated(scope);
+    await fs.promises.mkdir(this.getBaseDir(scope), { recursive: true });
+
+    // Rewrite rather than append, so a crash cannot leave a partial last line behind
+    const filePath = this.getMemoryFilePath(scope, category);
+    const existing = fs.existsSync(filePath)
+      ? await fs.promises.readFile(filePath, 'utf-8')
+      : serializeHeader(category);
+    const content = existing + serializeMemory(memory);
+    await writeFileAtomic(filePath, content);
+    this.updateIndex(scope, this.getMemoryFileName(category), content);
+  }
+
+  async deleteCategory(scope: MemoryScope, category: string): Promise<void> {
+    await this.ensureMigrated(scope);
+
+    const filePath = this.getMemoryFilePath(scope, category);
+
+    if (fs.existsSync(filePath)) {
+      await fs.promises.unlink(filePath);
+    }
+    this.updateIndex(scope, this.getMemoryFileName(category));
+  }
+
+  async clearScope(scope: MemoryScope): Promise<void> {
+    const baseDir = this.getBaseDir(scope);
+
+    if (fs.existsSync(baseDir)) {
+      // Keep hidden entries: the lock directory the caller may be holding and auxiliary documents
+      for (const entry of await fs.promises.readdir(baseDir)) {
+        if (entry.startsWith('.')) continue;
+        await fs.promises.rm(path.join(baseDir, entry), { recursive: true, force: true });
+      }
+    }
+    this.indexes.get(scope)?.clear();
+  }
+
+  async readDocument(scope: MemoryScope, name: string): Promise<string | undefined> {
+    const documentPath = this.getDocumentPath(scope, name);
+
+    if (!fs.existsSync(documentPath)) {
+      return undefined;
+    }
+    return fs.promises.readFile(documentPath, 'utf-8');
+  }
+
+  async writeDocument(scope: MemoryScope, name: string, content: string): Promise<void> {
+    await fs.promises.mkdir(this.getBaseDir(scope), { recursive: true });
+    await writeFileAtomic(this.getDocumentPath(scope, name), content);
+  }
+
+  // Append without reading the document, whose size only grows. A crash can leave a partial last
+  // line, which readers skip and the next append cuts off so it does not run into the new lines.
+  async appendDocument(scope: MemoryScope, name: string, content: string): Promise<void> {
+    await fs.promises.mkdir(this.getBaseDir(scope), { recursive: true });
+    const documentPath = this.getDocumentPath(scope, name);
+
+    if (fs.existsSync(documentPath)) {
+      await truncatePartialLine(documentPath);
+    }
+    await fs.promises.appendFile(documentPath, content);
+  }
+
+  async deleteDocument(scope: MemoryScope, name: string): Promise<void> {
+    await fs.promises.rm(this.getDocumentPath(scope, name), { force: true });
+  }
+
+  async withLock<T>(scope: MemoryScope, fn: () => Promise<T>): Promise<T> {
+    await this.ensureMigrated(scope);
+    return this.lock(scope, async () => {
+      this.locked.add(scope);
+      try {
+        return await fn();
+      } finally {
+        this.locked.delete(scope);
+      }
+    });
+  }
+
+  async watch(listener: StorageChangeListener): Promise<() => void> {
+    const stops: (() => void)[] = [];
+
+    // Stop watching the scopes already watched when one fails, such as when the system runs out of
+    // watches, so every read goes to the files again
+    try {
+      for (const scope of ['global', 'local', ...Object.keys(this.namedScopes)]) {
+        const baseDir = this.getBaseDir(scope);
+        if (!fs.existsSync(baseDir)) continue;
+        await this.ensureMigrated(scope);
+
+        // Start watching before indexing, so edits made while indexing are not missed
+        const pending = new Set<string>();
+        let timer: NodeJS.Timeout | undefined;
+        const watcher = fs.watch(baseDir, (_event, fileName) => {
+          if (!fileName?.endsWith(MEMORY_FILE_EXTENSION)) return;
+
+          pending.add(fileName);
+          clearTimeout(timer);
+          timer = setTimeout(() => {
+            const fileNames = [...pending];
+            pending.clear();
+            this.reload(scope, fileNames, listener).catch(error => {
+              logger.error(`Error reloading memories in ${baseDir}:`, error);
+            });
+          }, this.watchDebounceMs);
+        });
+        watcher.on('error', error => {
+          logger.error(`Error watching ${baseDir}:`, error);
+        });
+        stops.push(() => {
+          clearTimeout(timer);
+          watcher.close();
+          this.indexes.delete(scope);
+        });
+
+        const index = new Map<string, IndexedCategory>();
+        for (const fileName of await fs.promises.readdir(baseDir)) {
+          if (!fileName.endsWith(MEMORY_FILE_EXTENSION)) continue;
+          const entry = await this.loadFile(scope, fileName);
+          if (entry) index.set(fileName, entry);
+        }
+        this.indexes.set(scope, index);
+      }
+    } catch (error) {
+      for (const stop of stops) stop();
+      throw error;
+    }
+
+    return () => {
+      for (const stop of stops) stop();
+    };
+  }
+}
@@ -0,0 +1,79 @@
+import fs from 'fs';
+import { logger } from './logger.js';
+
+// Lock directories older than this are left over from a crashed process
+const DEFAULT_STALE_MS = 10_000;
+
+// Give up waiting for a lock after this long
+const DEFAULT_TIMEOUT_MS = 30_000;
+
+export interface FileLockOptions {
+  staleMs?: number;
+  timeoutMs?: number;
+}
+
+export class FileLockError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FileLockError';
+  }
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Create the lock directory, waiting while another process holds it.
+// `mkdir` is atomic on every platform, so only one process can succeed.
+const acquireLock = async (lockPath: string, staleMs: number, timeoutMs: number) => {
+  const startedAt = Date.now();
+
+  for (;;) {
+    try {
+      await fs.promises.mkdir(lockPath);
+      return;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+    }
+
+    try {
+      const stats = await fs.promises.stat(lockPath);
+      if (Date.now() - stats.mtimeMs > staleMs) {
+        logger.warn(`Removing stale lock ${lockPath}`);
+        await fs.promises.rm(lockPath, { recursive: true, force: true });
+        continue;
+      }
+    } catch (error) {
+      // Released between our mkdir and stat, try again right away
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') continue;
+      throw error;
+    }
+
+    if (Date.now() - startedAt > timeoutMs) {
+      throw new FileLockError(`Timed out waiting for lock ${lockPath}`);
+    }
+    await sleep(5 + Math.random() * 20);
+  }
+};
+
+// Run `fn` while holding a lock shared with other processes using the same lock path
+export const withFileLock = async <T>(
+  lockPath: string,
+  fn: () => Promise<T>,
+  options: FileLockOptions = {}
+): Promise<T> => {
+  const { staleMs = DEFAULT_STALE_MS, timeoutMs = DEFAULT_TIMEOUT_MS } = options;
+  await acquireLock(lockPath, staleMs, timeoutMs);
+
+  // Keep the lock fresh so slow mutations are not mistaken for a crashed holder
+  const refresh = setInterval(() => {
+    const now = new Date();
+    fs.promises.utimes(lockPath, now, now).catch(() => {});
+  }, staleMs / 2);
+  refresh.unref();
+
+  try {
+    return await fn();
+  } finally {
+    clearInterval(refresh);
+    await fs.promises.rm(lockPath, { recursive: true, force: true });
+  }
+};
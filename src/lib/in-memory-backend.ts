@@ -0,0 +1,81 @@
+import { StoredMemory, cloneMemories } from './memory-format.js';
+import { MemoryScope, StorageBackend } from './storage-backend.js';
+
+// Keeps categories in process memory, used when persistence is disabled
+export class InMemoryBackend implements StorageBackend {
+  private scopes = new Map<MemoryScope, Map<string, StoredMemory[]>>();
+  private documents = new Map<MemoryScope, Map<string, string>>();
+  private locks = new Map<MemoryScope, Promise<unknown>>();
+
+  // Get the categories of a scope
+  private getScope(scope: MemoryScope): Map<string, StoredMemory[]> {
+    let categories = this.scopes.get(scope);
+    if (!categories) {
+      categories = new Map();
+      this.scopes.set(scope, categories);
+    }
+    return categories;
+  }
+
+  async listCategories(scope: MemoryScope): Promise<string[]> {
+    return [...this.getScope(scope).keys()].sort();
+  }
+
+  async readCategory(scope: MemoryScope, category: string): Promise<StoredMemory[]> {
+    return cloneMemories(this.getScope(scope).get(category) ?? []);
+  }
+
+  async writeCategory(
+    scope: MemoryScope,
+    category: string,
+    memories: StoredMemory[]
+  ): Promise<void> {
+    this.getScope(scope).set(category, cloneMemories(memories));
+  }
+
+  async appendMemory(scope: MemoryScope, category: string, memory: StoredMemory): Promise<void> {
+    const categories = this.getScope(scope);
+    categories.set(category, [...(categories.get(category) ?? []), ...cloneMemories([memory])]);
+  }
+
+  async deleteCategory(scope: MemoryScope, category: string): Promise<void> {
+    this.getScope(scope).delete(category);
+  }
+
+  async clearScope(scope: MemoryScope): Promise<void> {
+    this.scopes.delete(scope);
+  }
+
+  async readDocument(scope: MemoryScope, name: string): Promise<string | undefined> {
+    return this.documents.get(scope)?.get(name);
+  }
+
+  async writeDocument(scope: MemoryScope, name: string, content: string): Promise<void> {
+    let documents = this.documents.get(scope);
+    if (!documents) {
+      documents = new Map();
+      this.documents.set(scope, documents);
+    }
+    documents.set(name, content);
+  }
+
+  async appendDocument(scope: MemoryScope, name: string, content: string): Promise<void> {
+    const existing = (await this.readDocument(scope, name)) ?? '';
+    await this.writeDocument(scope, name, existing + content);
+  }
+
+  async deleteDocument(scope: MemoryScope, name: string): Promise<void> {
+    this.documents.get(scope)?.delete(name);
+  }
+
+  async withLock<T>(scope: MemoryScope, fn: () => Promise<T>): Promise<T> {
+    // Queue mutations of a scope one after another
+    const previous = this.locks.get(scope) ?? Promise.resolve();
+    const result = previous.then(fn);
+    this.locks.set(
+      scope,
+      result.catch(() => {})
+    );
+    return result;
+  }
+}
@@ -0,0 +1,137 @@
+import { randomUUID } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { writeFileAtomic } from './atomic-write.js';
+import { categoryToFileName, normalizeCategory } from './category-policy.js';
+import { logger } from './logger.js';
+import {
+  MEMORY_FILE_EXTENSION,
+  StoredMemory,
+  parseCategoryFile,
+  serializeCategoryFile,
+} from './memory-format.js';
+
+// Extension of category files written before the JSON Lines format
+export const LEGACY_FILE_EXTENSION = '.txt';
+
+// Suffix given to legacy files once their content has been migrated
+export const MIGRATED_FILE_SUFFIX = '.migrated';
+
+// Metadata line written above each legacy entry: `@id:<id> created:<iso> updated:<iso>`
+const LEGACY_METADATA_PATTERN = /^@id:(\S+) created:(\S+) updated:(\S+)$/;
+
+// Parse a legacy `.txt` category file, keeping tags and any IDs already assigned
+export const parseLegacyCategoryFile = (content: string, modifiedAt: Date): StoredMemory[] => {
+  // Older releases wrote escaped `\n` sequences instead of newlines, hand-edited files use real ones
+  const normalized = content.replaceAll('\\n', '\n');
+  const memories: StoredMemory[] = [];
+
+  for (const entry of normalized.split(/\n[ \t]*\n/)) {
+    if (!entry.trim()) continue;
+
+    let lines = entry.split('\n').filter(line => line.trim());
+    const metadata = LEGACY_METADATA_PATTERN.exec(lines[0]);
+    if (metadata) {
+      lines = lines.slice(1);
+    }
+
+    const hasTags = lines.length > 0 && lines[0].startsWith('#');
+    const tags = hasTags ? lines[0].substring(1).trim().split(/\s+/).filter(Boolean) : [];
+    const data = (hasTags ? lines.slice(1) : lines).join('\n');
+    if (!data) continue;
+
+    memories.push({
+      id: metadata ? metadata[1] : randomUUID(),
+      data,
+      tags,
+      createdAt: metadata ? metadata[2] : modifiedAt.toISOString(),
+      updatedAt: metadata ? metadata[3] : modifiedAt.toISOString(),
+    });
+  }
+
+  return memories;
+};
+
+// Read a file that needs migrating, returning its category name and memories
+const readMigrationSource = async (
+  filePath: string,
+  stem: string
+): Promise<{ category: string; memories: StoredMemory[] }> => {
+  const [content, stats] = await Promise.all([
+    fs.promises.readFile(filePath, 'utf-8'),
+    fs.promises.stat(filePath),
+  ]);
+
+  if (filePath.endsWith(LEGACY_FILE_EXTENSION)) {
+    return { category: stem, memories: parseLegacyCategoryFile(content, stats.mtime) };
+  }
+  return parseCategoryFile(content, filePath);
+};
+
+// Whether a category file name is already the one its category maps to
+const hasCanonicalName = (stem: string): boolean => {
+  // Hashed names are only ever written for canonical categories
+  if (stem.includes('~')) {
+    return true;
+  }
+  try {
+    return categoryToFileName(normalizeCategory(stem)) === stem;
+  } catch {
+    return false;
+  }
+};
+
+// Bring a storage directory up to date: convert legacy `.txt` category files to the current
+// format and rename category files written before category names were normalized.
+// Migrated files are renamed rather than deleted, so they can be recovered by hand.
+export const migrateLegacyStorage = async (baseDir: string): Promise<string[]> => {
+  if (!fs.existsSync(baseDir)) {
+    return [];
+  }
+
+  const migrated: string[] = [];
+  for (const file of await fs.promises.readdir(baseDir)) {
+    const extension = [LEGACY_FILE_EXTENSION, MEMORY_FILE_EXTENSION].find(ext =>
+      file.endsWith(ext)
+    );
+    if (!extension) continue;
+
+    const stem = file.slice(0, -extension.length);
+    if (extension === MEMORY_FILE_EXTENSION && hasCanonicalName(stem)) continue;
+
+    const sourcePath = path.join(baseDir, file);
+    const source = await readMigrationSource(sourcePath, stem);
+
+    let category: string;
+    try {
+      category = normalizeCategory(source.category);
+    } catch (error) {
+      logger.warn(`Skipping migration of ${sourcePath}:`, error);
+      continue;
+    }
+
+    // Move the source aside first, so it is never overwritten when the target name only
+    // differs in case on a case-insensitive file system
+    await fs.promises.rename(sourcePath, `${sourcePath}${MIGRATED_FILE_SUFFIX}`);
+
+    // Keep anything already stored in the current format for the same category
+    const targetPath = path.join(
+      baseDir,
+      `${categoryToFileName(category)}${MEMORY_FILE_EXTENSION}`
+    );
+    let memories = source.memories;
+    if (fs.existsSync(targetPath)) {
+      const existing = parseCategoryFile(
+        await fs.promises.readFile(targetPath, 'utf-8'),
+        targetPath
+      );
+      const existingIds = new Set(existing.memories.map(memory => memory.id));
+      memories = [...existing.memories, ...memories.filter(memory => !existingIds.has(memory.id))];
+    }
+
+    await writeFileAtomic(targetPath, serializeCategoryFile(category, memories));
+    migrated.push(category);
+  }
+
+  return migrated;
+};
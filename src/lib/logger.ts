@@ -1,13 +1,32 @@
 import winston from 'winston';
 import path from 'path';
 
-export const logger = winston.createLogger({
-  level: 'info',
+// Levels messages can be logged at, most severe first
+export const LOG_LEVELS = ['error', 'warn', 'info', 'http', 'verbose', 'debug', 'silly'] as const;
+
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+export interface LoggerOptions {
+  // File to log to, mcp-shell.log in the working directory when undefined
+  file?: string;
+  // Least severe level logged, info when undefined
+  level?: LogLevel;
+}
+
+const createLoggerOptions = ({ file, level }: LoggerOptions): winston.LoggerOptions => ({
+  level: level ?? 'info',
   format: winston.format.combine(winston.format.timestamp(), winston.format.json()),
   transports: [
     new winston.transports.File({
-      filename: path.join(process.cwd(), 'mcp-shell.log'),
+      filename: file ?? path.join(process.cwd(), 'mcp-shell.log'),
     }),
     // Console output is disabled to avoid interfering with MCP protocol communication
   ],
 });
+
+export const logger = winston.createLogger(createLoggerOptions({}));
+
+// Log to the configured file and level instead of the defaults
+export const configureLogger = (options: LoggerOptions): void => {
+  logger.configure(createLoggerOptions(options));
+};
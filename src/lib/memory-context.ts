@@ -0,0 +1,81 @@
+import {
+  Memory,
+  MemoryStorage,
+  ScopeSelection,
+  MemoryScope,
+  SearchResult,
+  groupMemories,
+} from './memory-storage.js';
+
+export interface MemoryContextOptions {
+  scope?: ScopeSelection;
+  // Only render this category
+  category?: string;
+  // Most recently updated memories to include, all when undefined
+  maxMemories?: number;
+}
+
+// "1 memory" or "N memories"
+export const countMemories = (count: number): string =>
+  `${count} ${count === 1 ? 'memory' : 'memories'}`;
+
+// Heading name of a scope, "Global", "Local" or a named scope such as "Team"
+export const scopeTitle = (scope: MemoryScope): string =>
+  scope.charAt(0).toUpperCase() + scope.slice(1);
+
+// Format a single memory as a bullet line
+export const formatMemory = (
+  memory: Pick<Memory, 'id' | 'data' | 'tags' | 'expiresAt'>
+): string => {
+  const tags = memory.tags.length > 0 ? ` (tags: ${memory.tags.join(', ')})` : '';
+  const expiry = memory.expiresAt !== undefined ? ` (expires: ${memory.expiresAt})` : '';
+  return `- [${memory.id}] ${memory.data}${tags}${expiry}`;
+};
+
+// Format a search result as a bullet line naming where the memory is stored
+export const formatSearchResult = (result: SearchResult): string =>
+  `${formatMemory(result)} (in ${result.scope} category: ${result.category})`;
+
+// Render the current memories as text for a model's context, grouped by scope and category
+export const renderMemoryContext = async (
+  memoryStorage: MemoryStorage,
+  options: MemoryContextOptions = {}
+): Promise<string> => {
+  const { scope = 'all', category, maxMemories } = options;
+  // Global memories are rendered first, so project specifics come last
+  const scopes = memoryStorage.selectedScopes(scope).reverse();
+  const memories = await memoryStorage.retrieveScoped(scope, category);
+
+  if (memories.length === 0) {
+    return 'No memories saved yet.';
+  }
+
+  // Keep the most recently updated memories when capped, rendered in their stored order
+  const shown = new Set(
+    [...memories]
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+      .slice(0, maxMemories ?? memories.length)
+  );
+
+  const sections: string[] = [];
+  for (const memoryScope of scopes) {
+    const scoped = memories.filter(memory => shown.has(memory) && memory.scope === memoryScope);
+    if (scoped.length === 0) continue;
+
+    const lines = [`${scopeTitle(memoryScope)} Memories:`];
+    for (const [category, categoryMemories] of Object.entries(groupMemories(scoped, 'category'))) {
+      lines.push('', `Category: ${category}`, ...categoryMemories.map(formatMemory));
+    }
+    sections.push(lines.join('\n'));
+  }
+
+  const hidden = memories.length - shown.size;
+  if (hidden > 0) {
+    sections.push(
+      `${hidden} older ${hidden === 1 ? 'memory is' : 'memories are'} not shown, ` +
+        'use retrieve_memories or search_memories to see them.'
+    );
+  }
+
+  return sections.join('\n\n');
+};
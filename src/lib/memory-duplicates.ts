@@ -0,0 +1,65 @@
+import { MemoryScope } from './storage-backend.js';
+
+// What remembering a duplicate of an existing memory does: fail, add its tags to the existing
+// memory, or store it anyway
+export const DUPLICATE_POLICIES = ['reject', 'merge', 'allow'] as const;
+
+export type DuplicatePolicy = (typeof DUPLICATE_POLICIES)[number];
+
+// Similarity from which a memory counts as a near duplicate of another
+export const DEFAULT_DUPLICATE_THRESHOLD = 0.9;
+
+// An existing memory matching one being remembered
+export interface DuplicateMatch {
+  id: string;
+  scope: MemoryScope;
+  category: string;
+  data: string;
+  // 1 for the same normalized text
+  similarity: number;
+}
+
+export class DuplicateMemoryError extends Error {
+  constructor(readonly duplicate: DuplicateMatch) {
+    super(
+      `${duplicate.similarity === 1 ? 'Duplicate' : 'Near duplicate'} of memory ${duplicate.id} ` +
+        `in ${duplicate.scope} category ${duplicate.category}: ${duplicate.data}`
+    );
+    this.name = 'DuplicateMemoryError';
+  }
+}
+
+// Text compared for duplicates: case, width, punctuation and spacing do not matter
+export const normalizeText = (text: string): string =>
+  text
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+
+// Character trigrams of a normalized text, padded so short words have some
+const trigrams = (text: string): Set<string> => {
+  const characters = [...` ${text} `];
+  const result = new Set<string>();
+  for (let index = 0; index + 3 <= characters.length; index++) {
+    result.add(characters.slice(index, index + 3).join(''));
+  }
+  return result;
+};
+
+// Similarity of two texts from 0 to 1, the Dice coefficient of their normalized trigrams
+export const textSimilarity = (a: string, b: string): number => {
+  const normalizedA = normalizeText(a);
+  const normalizedB = normalizeText(b);
+  if (normalizedA === normalizedB) {
+    return 1;
+  }
+
+  const trigramsA = trigrams(normalizedA);
+  const trigramsB = trigrams(normalizedB);
+  let shared = 0;
+  for (const trigram of trigramsA) {
+    if (trigramsB.has(trigram)) shared++;
+  }
+  return (2 * shared) / (trigramsA.size + trigramsB.size);
+};
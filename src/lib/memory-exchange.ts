@@ -0,0 +1,381 @@
+import { z } from 'zod';
+import { normalizeCategory } from './category-policy.js';
+import { CategorizedMemory, MemoryFormatError } from './memory-format.js';
+
+export const EXCHANGE_FORMATS = ['json', 'markdown', 'csv'] as const;
+
+export type ExchangeFormat = (typeof EXCHANGE_FORMATS)[number];
+
+// A memory read from an export, IDs and timestamps are optional for hand-written files
+export const importedMemorySchema = z.object({
+  id: z.string().min(1).optional(),
+  category: z.string().min(1),
+  data: z.string().min(1),
+  tags: z.array(z.string().min(1)).default([]),
+  createdAt: z.string().datetime().optional(),
+  updatedAt: z.string().datetime().optional(),
+  expiresAt: z.string().datetime().optional(),
+});
+
+export type ImportedMemory = z.infer<typeof importedMemorySchema>;
+
+// Columns of CSV exports, in order
+const CSV_COLUMNS = [
+  'id',
+  'category',
+  'data',
+  'tags',
+  'createdAt',
+  'updatedAt',
+  'expiresAt',
+] as const;
+
+// Separates tags within the CSV tags column, a backslash escapes it and itself within a tag
+const CSV_TAG_SEPARATOR = ';';
+
+// Validate one imported record, reporting the line it starts on
+const parseImportedMemory = (value: unknown, source: string, line: number): ImportedMemory => {
+  const result = importedMemorySchema.safeParse(value);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const field = issue.path.length > 0 ? `${issue.path.join('.')}: ` : '';
+    throw new MemoryFormatError(`${source}:${line}: ${field}${issue.message}`);
+  }
+
+  try {
+    return { ...result.data, category: normalizeCategory(result.data.category) };
+  } catch (error) {
+    throw new MemoryFormatError(`${source}:${line}: category: ${(error as Error).message}`);
+  }
+};
+
+// Line number of an offset in a text
+const lineAt = (content: string, offset: number): number =>
+  content.slice(0, offset).split('\n').length;
+
+// Split a JSON array into the source of its elements, so each can be reported by line
+const splitJsonArray = (content: string, source: string): { text: string; line: number }[] => {
+  const start = content.search(/\S/);
+  if (start === -1 || content[start] !== '[') {
+    throw new MemoryFormatError(
+      `${source}:${lineAt(content, Math.max(start, 0))}: Expected a JSON array`
+    );
+  }
+
+  const elements: { text: string; line: number }[] = [];
+  let depth = 0;
+  let inString = false;
+  let elementStart = start + 1;
+
+  for (let index = start + 1; index < content.length; index++) {
+    const char = content[index];
+    if (inString) {
+      if (char === '\\') index++;
+      else if (char === '"') inString = false;
+      continue;
+    }
+
+    if (char === '"') inString = true;
+    else if (char === '{' || char === '[') depth++;
+    else if (depth > 0 && (char === '}' || char === ']')) depth--;
+    else if (depth === 0 && (char === ',' || char === ']')) {
+      const text = content.slice(elementStart, index);
+      if (text.trim()) {
+        elements.push({ text, line: lineAt(content, elementStart + text.search(/\S/)) });
+      }
+      if (char === ']') {
+        const rest = content.slice(index + 1);
+        if (rest.trim()) {
+          throw new MemoryFormatError(
+            `${source}:${lineAt(content, index + 1 + rest.search(/\S/))}: Unexpected content after the array`
+          );
+        }
+        return elements;
+      }
+      elementStart = index + 1;
+    }
+  }
+
+  throw new MemoryFormatError(
+    `${source}:${lineAt(content, content.length)}: Unterminated JSON array`
+  );
+};
+
+const parseJson = (content: string, source: string): ImportedMemory[] =>
+  splitJsonArray(content, source).map(({ text, line }) => {
+    let value: unknown;
+    try {
+      value = JSON.parse(text);
+    } catch {
+      throw new MemoryFormatError(`${source}:${line}: Invalid JSON`);
+    }
+    return parseImportedMemory(value, source, line);
+  });
+
+// `- data #tag <!-- id: ..., created: ..., updated: ..., expires: ... -->`, further data lines are
+// indented
+const MARKDOWN_ITEM_PATTERN = /^- (.*?)((?: `#[^`\s]+`)*)(?: <!-- (.*) -->)?$/;
+
+// Escape the first data line of a Markdown item so it cannot be read as tags or metadata,
+// backslash escapes render as the characters themselves
+const escapeMarkdownText = (text: string): string => text.replace(/[\\`<]/g, '\\$&');
+
+const unescapeMarkdownText = (text: string): string => text.replace(/\\([\\`<])/g, '$1');
+
+// Percent-encode what would end a Markdown tag or metadata value, which code spans and comments
+// cannot escape otherwise
+const encodeMarkdownValue = (value: string): string =>
+  value.replace(/[%\s`<>,]/g, char => encodeURIComponent(char));
+
+const decodeMarkdownValue = (value: string): string =>
+  value.replace(/(?:%[0-9A-Fa-f]{2})+/g, encoded => {
+    try {
+      return decodeURIComponent(encoded);
+    } catch {
+      return encoded;
+    }
+  });
+
+const parseMarkdownMetadata = (metadata: string | undefined) => {
+  const fields = new Map<string, string>();
+  for (const field of metadata?.split(',') ?? []) {
+    const [key, ...value] = field.split(':');
+    if (key.trim()) fields.set(key.trim(), decodeMarkdownValue(value.join(':').trim()));
+  }
+  return {
+    id: fields.get('id'),
+    createdAt: fields.get('created'),
+    updatedAt: fields.get('updated'),
+    expiresAt: fields.get('expires'),
+  };
+};
+
+const parseMarkdown = (content: string, source: string): ImportedMemory[] => {
+  const lines = content.split('\n');
+  const memories: ImportedMemory[] = [];
+  let category: string | undefined;
+  let pending: { value: Record<string, unknown>; line: number } | undefined;
+
+  const flush = () => {
+    if (pending) memories.push(parseImportedMemory(pending.value, source, pending.line));
+    pending = undefined;
+  };
+
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index].replace(/\r$/, '');
+    const lineNumber = index + 1;
+
+    if (pending && line.startsWith('  ')) {
+      pending.value.data += `\n${line.slice(2)}`;
+      continue;
+    }
+    flush();
+
+    if (!line.trim() || /^# /.test(line)) continue;
+
+    const heading = /^## (.+)$/.exec(line);
+    if (heading) {
+      category = heading[1].trim();
+      continue;
+    }
+
+    const item = MARKDOWN_ITEM_PATTERN.exec(line);
+    if (!item) {
+      throw new MemoryFormatError(
+        `${source}:${lineNumber}: Expected a '## category' heading or a '- memory' list item`
+      );
+    }
+    if (category === undefined) {
+      throw new MemoryFormatError(
+        `${source}:${lineNumber}: Memory outside of a '## category' heading`
+      );
+    }
+
+    const metadata = parseMarkdownMetadata(item[3]);
+    pending = {
+      line: lineNumber,
+      value: {
+        category,
+        data: unescapeMarkdownText(item[1]),
+        tags: [...item[2].matchAll(/`#([^`\s]+)`/g)].map(match => decodeMarkdownValue(match[1])),
+        ...(metadata.id !== undefined && { id: metadata.id }),
+        ...(metadata.createdAt !== undefined && { createdAt: metadata.createdAt }),
+        ...(metadata.updatedAt !== undefined && { updatedAt: metadata.updatedAt }),
+        ...(metadata.expiresAt !== undefined && { expiresAt: metadata.expiresAt }),
+      },
+    };
+  }
+  flush();
+
+  return memories;
+};
+
+// Split CSV into records of fields (RFC 4180), with the line each record starts on
+const parseCsvRecords = (content: string, source: string): { fields: string[]; line: number }[] => {
+  const records: { fields: string[]; line: number }[] = [];
+  let fields: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+
+  for (let index = 0; index < content.length; index++) {
+    const char = content[index];
+    if (char === '\n') line++;
+
+    if (inQuotes) {
+      if (char === '"' && content[index + 1] === '"') {
+        field += '"';
+        index++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[index + 1] === '\n') continue;
+      fields.push(field);
+      if (fields.some(value => value !== '')) records.push({ fields, line: recordLine });
+      fields = [];
+      field = '';
+      recordLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new MemoryFormatError(`${source}:${recordLine}: Unterminated quoted field`);
+  }
+  fields.push(field);
+  if (fields.some(value => value !== '')) records.push({ fields, line: recordLine });
+  return records;
+};
+
+const parseCsv = (content: string, source: string): ImportedMemory[] => {
+  const [header, ...rows] = parseCsvRecords(content, source);
+  if (!header) {
+    return [];
+  }
+
+  const columns = header.fields.map(column => column.trim());
+  for (const required of ['category', 'data']) {
+    if (!columns.includes(required)) {
+      throw new MemoryFormatError(`${source}:${header.line}: Missing column "${required}"`);
+    }
+  }
+
+  return rows.map(({ fields, line }) => {
+    if (fields.length !== columns.length) {
+      throw new MemoryFormatError(
+        `${source}:${line}: Expected ${columns.length} fields, found ${fields.length}`
+      );
+    }
+
+    const value: Record<string, unknown> = {};
+    columns.forEach((column, index) => {
+      if (column === 'tags') {
+        value.tags = parseCsvTags(fields[index]);
+      } else if (fields[index] !== '') {
+        value[column] = fields[index];
+      }
+    });
+    return parseImportedMemory(value, source, line);
+  });
+};
+
+// Split the CSV tags column on the separators that are not escaped
+const parseCsvTags = (field: string): string[] =>
+  [...field.matchAll(/(?:\\.|[^\\;])+/gs)]
+    .map(match => match[0].replace(/\\(.)/gs, '$1'))
+    .filter(tag => tag.trim());
+
+const serializeCsvTags = (tags: string[]): string =>
+  tags.map(tag => tag.replace(/[\\;]/g, '\\$&')).join(CSV_TAG_SEPARATOR);
+
+// Quote a CSV field when it contains a separator, quote or line break
+const csvField = (value: string): string =>
+  /[",\r\n]/.test(value) ? `"${value.replaceAll('"', '""')}"` : value;
+
+const serializeMarkdown = (memories: CategorizedMemory[]): string => {
+  const lines = ['# Memories'];
+  let category: string | undefined;
+
+  for (const memory of [...memories].sort((a, b) => a.category.localeCompare(b.category))) {
+    if (memory.category !== category) {
+      category = memory.category;
+      lines.push('', `## ${category}`, '');
+    }
+
+    // Markdown has no way to keep carriage returns, line breaks are written as '\n'
+    const [first, ...rest] = memory.data.replace(/\r\n?/g, '\n').split('\n');
+    const tags = memory.tags.map(tag => ` \`#${encodeMarkdownValue(tag)}\``).join('');
+    const expiry = memory.expiresAt !== undefined ? `, expires: ${memory.expiresAt}` : '';
+    lines.push(
+      `- ${escapeMarkdownText(first)}${tags} <!-- id: ${encodeMarkdownValue(memory.id)}, created: ${memory.createdAt}, updated: ${memory.updatedAt}${expiry} -->`,
+      ...rest.map(line => `  ${line}`)
+    );
+  }
+
+  return lines.join('\n') + '\n';
+};
+
+const serializeCsv = (memories: CategorizedMemory[]): string =>
+  [
+    CSV_COLUMNS.join(','),
+    ...memories.map(memory =>
+      CSV_COLUMNS.map(column =>
+        csvField(column === 'tags' ? serializeCsvTags(memory.tags) : (memory[column] ?? ''))
+      ).join(',')
+    ),
+  ].join('\n') + '\n';
+
+// Serialize memories for export
+export const exportMemories = (memories: CategorizedMemory[], format: ExchangeFormat): string => {
+  switch (format) {
+    case 'json':
+      return (
+        JSON.stringify(
+          memories.map(memory => ({
+            id: memory.id,
+            category: memory.category,
+            data: memory.data,
+            tags: memory.tags,
+            createdAt: memory.createdAt,
+            updatedAt: memory.updatedAt,
+            ...(memory.expiresAt !== undefined && { expiresAt: memory.expiresAt }),
+          })),
+          null,
+          2
+        ) + '\n'
+      );
+    case 'markdown':
+      return serializeMarkdown(memories);
+    case 'csv':
+      return serializeCsv(memories);
+  }
+};
+
+// Parse and validate an export, errors name the source and line of the offending record
+export const parseImport = (
+  content: string,
+  format: ExchangeFormat,
+  source = 'import'
+): ImportedMemory[] => {
+  switch (format) {
+    case 'json':
+      return parseJson(content, source);
+    case 'markdown':
+      return parseMarkdown(content, source);
+    case 'csv':
+      return parseCsv(content, source);
+  }
+};
@@ -0,0 +1,22 @@
+// Milliseconds in each unit a time to live can be given in
+const TTL_UNITS: Record<string, number> = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+// How often a running server moves expired memories to the trash
+export const EXPIRY_SWEEP_INTERVAL_MS = 60 * 1000;
+
+// Parse a time to live such as "90s", "30m", "12h", "7d" or "2w" into milliseconds
+export const parseTtl = (ttl: string): number => {
+  const match = /^(\d+)\s*([smhdw])$/.exec(ttl.trim().toLowerCase());
+  if (!match || Number(match[1]) === 0) {
+    throw new Error(
+      `Invalid ttl "${ttl}": use a positive number followed by s, m, h, d or w, such as 12h or 7d`
+    );
+  }
+  return Number(match[1]) * TTL_UNITS[match[2]];
+};
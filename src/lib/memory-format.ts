@@ -0,0 +1,175 @@
+import { z } from 'zod';
+
+// Current version of the category file format
+export const MEMORY_FORMAT_VERSION = 1;
+
+// Extension of category files
+export const MEMORY_FILE_EXTENSION = '.jsonl';
+
+// First line of every category file
+const fileHeaderSchema = z.object({
+  format: z.literal('mcp-memory'),
+  version: z.number().int().positive(),
+  category: z.string().min(1),
+});
+
+// One memory per following line
+export const storedMemorySchema = z.object({
+  id: z.string().min(1),
+  data: z.string(),
+  tags: z.array(z.string()),
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime(),
+  // When the memory expires and is moved to the trash, never when undefined
+  expiresAt: z.string().datetime().optional(),
+});
+
+export type StoredMemory = z.infer<typeof storedMemorySchema>;
+
+// A memory together with its category, as kept outside category files
+export const categorizedMemorySchema = storedMemorySchema.extend({
+  category: z.string().min(1),
+});
+
+export type CategorizedMemory = z.infer<typeof categorizedMemorySchema>;
+
+// A memory in a scope's trash, with the category it was deleted from
+export const deletedMemorySchema = categorizedMemorySchema.extend({
+  deletedAt: z.string().datetime(),
+});
+
+export type DeletedMemoryRecord = z.infer<typeof deletedMemorySchema>;
+
+// One change in a scope's history log
+export const historyEntrySchema = z.object({
+  at: z.string().datetime(),
+  type: z.enum(['create', 'update', 'delete']),
+  id: z.string().min(1),
+  // Tool or command that made the change
+  origin: z.string().optional(),
+  before: categorizedMemorySchema.optional(),
+  after: categorizedMemorySchema.optional(),
+});
+
+export type HistoryEntry = z.infer<typeof historyEntrySchema>;
+
+// A snapshot listed in a scope's snapshot index, its memories are kept in a separate document
+export const snapshotInfoSchema = z.object({
+  id: z.string().min(1),
+  label: z.string().optional(),
+  createdAt: z.string().datetime(),
+  count: z.number().int().nonnegative(),
+});
+
+export type SnapshotInfo = z.infer<typeof snapshotInfoSchema>;
+
+// The embedding of a memory, `hash` identifies the text it was computed from
+export const vectorRecordSchema = z.object({
+  id: z.string().min(1),
+  provider: z.string().min(1),
+  hash: z.string().min(1),
+  vector: z.array(z.number()),
+});
+
+export type VectorRecord = z.infer<typeof vectorRecordSchema>;
+
+export interface CategoryFile {
+  category: string;
+  memories: StoredMemory[];
+}
+
+// Copy records so callers never share state with a store
+export const cloneMemories = (memories: StoredMemory[]): StoredMemory[] =>
+  memories.map(memory => ({ ...memory, tags: [...memory.tags] }));
+
+export class MemoryFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MemoryFormatError';
+  }
+}
+
+// Parse one JSON line against a schema, reporting the file and line on failure
+const parseLine = <T>(
+  schema: z.ZodType<T>,
+  line: string,
+  source: string,
+  lineNumber: number
+): T => {
+  let value: unknown;
+  try {
+    value = JSON.parse(line);
+  } catch {
+    throw new MemoryFormatError(`${source}:${lineNumber}: Invalid JSON`);
+  }
+
+  const result = schema.safeParse(value);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const field = issue.path.length > 0 ? `${issue.path.join('.')}: ` : '';
+    throw new MemoryFormatError(`${source}:${lineNumber}: ${field}${issue.message}`);
+  }
+  return result.data;
+};
+
+// Parse the content of a category file
+export const parseCategoryFile = (content: string, source: string): CategoryFile => {
+  const lines = content.split('\n');
+  const headerIndex = lines.findIndex(line => line.trim());
+  if (headerIndex === -1) {
+    throw new MemoryFormatError(`${source}: Missing format header`);
+  }
+
+  const header = parseLine(fileHeaderSchema, lines[headerIndex], source, headerIndex + 1);
+  if (header.version > MEMORY_FORMAT_VERSION) {
+    throw new MemoryFormatError(
+      `${source}: Unsupported format version ${header.version}, expected ${MEMORY_FORMAT_VERSION} or lower`
+    );
+  }
+
+  const memories: StoredMemory[] = [];
+  for (let index = headerIndex + 1; index < lines.length; index++) {
+    if (!lines[index].trim()) continue;
+    memories.push(parseLine(storedMemorySchema, lines[index], source, index + 1));
+  }
+
+  return { category: header.category, memories };
+};
+
+// Parse a JSON Lines document holding one record per line
+export const parseRecords = <T>(content: string, schema: z.ZodType<T>, source: string): T[] => {
+  const lines = content.split('\n');
+  const records: T[] = [];
+  for (let index = 0; index < lines.length; index++) {
+    if (!lines[index].trim()) continue;
+    records.push(parseLine(schema, lines[index], source, index + 1));
+  }
+  return records;
+};
+
+// Complete lines of an appended document, leaving out a partial last line of an interrupted append
+export const completeLines = (content: string): string =>
+  content.slice(0, content.lastIndexOf('\n') + 1);
+
+// Serialize records as a JSON Lines document
+export const serializeRecords = (records: object[]): string =>
+  records.map(record => JSON.stringify(record) + '\n').join('');
+
+// Serialize the header line of a category file
+export const serializeHeader = (category: string): string =>
+  JSON.stringify({ format: 'mcp-memory', version: MEMORY_FORMAT_VERSION, category }) + '\n';
+
+// Serialize a single memory line
+export const serializeMemory = (memory: StoredMemory): string =>
+  JSON.stringify({
+    id: memory.id,
+    data: memory.data,
+    tags: memory.tags,
+    createdAt: memory.createdAt,
+    updatedAt: memory.updatedAt,
+    expiresAt: memory.expiresAt,
+  }) + '\n';
+
+// Serialize a whole category file
+export const serializeCategoryFile = (category: string, memories: StoredMemory[]): string =>
+  serializeHeader(category) + memories.map(serializeMemory).join('');
@@ -0,0 +1,131 @@
+import { MemoryScope } from './storage-backend.js';
+
+// Limits on what can be stored, each applies to every scope and is unlimited when undefined
+export interface MemoryQuotas {
+  // Largest data of one memory, in UTF-8 bytes
+  maxDataBytes?: number;
+  maxTagsPerMemory?: number;
+  maxCategoriesPerScope?: number;
+  // Largest total size of a scope's memories, their data and tags in UTF-8 bytes
+  maxScopeBytes?: number;
+}
+
+export type QuotaLimit = keyof MemoryQuotas;
+
+// What the memories of a scope use of the quotas
+export interface QuotaUsage {
+  memories: number;
+  categories: number;
+  bytes: number;
+  // Data of the largest memory and tags of the most tagged one, for the per-memory limits
+  largestDataBytes: number;
+  mostTags: number;
+}
+
+// The parts of a memory the quotas measure
+interface MeasuredMemory {
+  category: string;
+  data: string;
+  tags: string[];
+}
+
+export class QuotaExceededError extends Error {
+  constructor(
+    readonly limit: QuotaLimit,
+    readonly scope: MemoryScope,
+    readonly max: number,
+    readonly actual: number,
+    message: string
+  ) {
+    super(message);
+    this.name = 'QuotaExceededError';
+  }
+}
+
+// Size of a memory counted against maxScopeBytes
+const memoryBytes = (memory: MeasuredMemory): number =>
+  Buffer.byteLength(memory.data) +
+  memory.tags.reduce((total, tag) => total + Buffer.byteLength(tag), 0);
+
+// Measure what a scope's memories use of the quotas
+export const measureUsage = (memories: MeasuredMemory[]): QuotaUsage => ({
+  memories: memories.length,
+  categories: new Set(memories.map(memory => memory.category)).size,
+  bytes: memories.reduce((total, memory) => total + memoryBytes(memory), 0),
+  largestDataBytes: memories.reduce(
+    (largest, memory) => Math.max(largest, Buffer.byteLength(memory.data)),
+    0
+  ),
+  mostTags: memories.reduce((most, memory) => Math.max(most, memory.tags.length), 0),
+});
+
+// Reject a memory whose data or tags are over the per-memory limits
+export const checkMemoryQuotas = (
+  memory: MeasuredMemory,
+  scope: MemoryScope,
+  quotas: MemoryQuotas
+): void => {
+  const { maxDataBytes, maxTagsPerMemory } = quotas;
+  const dataBytes = Buffer.byteLength(memory.data);
+  if (maxDataBytes !== undefined && dataBytes > maxDataBytes) {
+    throw new QuotaExceededError(
+      'maxDataBytes',
+      scope,
+      maxDataBytes,
+      dataBytes,
+      `Memory data is ${dataBytes} bytes, over the limit of ${maxDataBytes} bytes per memory`
+    );
+  }
+  if (maxTagsPerMemory !== undefined && memory.tags.length > maxTagsPerMemory) {
+    throw new QuotaExceededError(
+      'maxTagsPerMemory',
+      scope,
+      maxTagsPerMemory,
+      memory.tags.length,
+      `Memory has ${memory.tags.length} tags, over the limit of ${maxTagsPerMemory} tags per memory`
+    );
+  }
+};
+
+// Reject a change of a scope's memories taking it over the per-scope limits. A scope already
+// over a limit, such as after the limit was lowered, can still shrink.
+export const checkScopeQuotas = (
+  before: MeasuredMemory[],
+  after: MeasuredMemory[],
+  scope: MemoryScope,
+  quotas: MemoryQuotas
+): void => {
+  const { maxCategoriesPerScope, maxScopeBytes } = quotas;
+  if (maxCategoriesPerScope === undefined && maxScopeBytes === undefined) {
+    return;
+  }
+
+  const previous = measureUsage(before);
+  const current = measureUsage(after);
+  if (
+    maxCategoriesPerScope !== undefined &&
+    current.categories > maxCategoriesPerScope &&
+    current.categories > previous.categories
+  ) {
+    throw new QuotaExceededError(
+      'maxCategoriesPerScope',
+      scope,
+      maxCategoriesPerScope,
+      current.categories,
+      `The ${scope} scope would have ${current.categories} categories, over the limit of ${maxCategoriesPerScope} categories per scope`
+    );
+  }
+  if (
+    maxScopeBytes !== undefined &&
+    current.bytes > maxScopeBytes &&
+    current.bytes > previous.bytes
+  ) {
+    throw new QuotaExceededError(
+      'maxScopeBytes',
+      scope,
+      maxScopeBytes,
+      current.bytes,
+      `The ${scope} scope would hold ${current.bytes} bytes of memories, over the limit of ${maxScopeBytes} bytes per scope`
+    );
+  }
+};
@@ -1,135 +1,1554 @@
-import fs from 'fs';
-import path from 'path';
+import { createHash, randomUUID } from 'crypto';
+import { EventEmitter } from 'events';
+import { normalizeCategory } from './category-policy.js';
+import { EmbeddingProvider, cosineSimilarity } from './embeddings.js';
+import { FileBackend } from './file-backend.js';
+import {
+  DEFAULT_DUPLICATE_THRESHOLD,
+  DuplicateMatch,
+  DuplicateMemoryError,
+  DuplicatePolicy,
+  textSimilarity,
+} from './memory-duplicates.js';
+import { ImportedMemory } from './memory-exchange.js';
+import {
+  MemoryQuotas,
+  QuotaUsage,
+  checkMemoryQuotas,
+  checkScopeQuotas,
+  measureUsage,
+} from './memory-quotas.js';
+import {
+  CategorizedMemory,
+  DeletedMemoryRecord,
+  HistoryEntry,
+  SnapshotInfo,
+  StoredMemory,
+  VectorRecord,
+  categorizedMemorySchema,
+  completeLines,
+  deletedMemorySchema,
+  historyEntrySchema,
+  parseRecords,
+  serializeRecords,
+  snapshotInfoSchema,
+  vectorRecordSchema,
+} from './memory-format.js';
+import { MemoryScope, StorageBackend } from './storage-backend.js';
+
+export type { MemoryScope } from './storage-backend.js';
+export type { HistoryEntry, SnapshotInfo } from './memory-format.js';
+export type { MemoryQuotas, QuotaUsage } from './memory-quotas.js';
+export type { DuplicateMatch, DuplicatePolicy } from './memory-duplicates.js';
 
 export interface Memory {
+  id: string;
   category: string;
   data: string;
   tags: string[];
+  scope: MemoryScope;
+  // Whether the memory is in the global scope, kept alongside scope for existing clients
   isGlobal: boolean;
+  createdAt: string;
+  updatedAt: string;
+  // When the memory expires, never when undefined
+  expiresAt?: string;
+}
+
+export interface MemoryChangeEvent {
+  // 'reload' when a category was changed outside this process, such as by hand or by git,
+  // 'restore' when the whole scope was rolled back to a snapshot
+  type: 'create' | 'update' | 'delete' | 'clear' | 'reload' | 'restore';
+  scope: MemoryScope;
+  // Category that changed, undefined when the whole scope was cleared
+  category?: string;
+  // IDs of the memories that changed, empty when a category or scope was cleared
+  ids: string[];
+}
+
+interface MemoryStorageEvents {
+  change: [MemoryChangeEvent];
+}
+
+export interface MemoryStorageOptions {
+  // Where memories are kept, files in the storage locations by default
+  backend?: StorageBackend;
+  // Days deleted memories stay in the trash before they are dropped, 30 by default
+  trashRetentionDays?: number;
+  // Days changes stay in the history and snapshots are kept before they are dropped, 90 by default
+  historyRetentionDays?: number;
+  // Computes the vectors similar() compares, semantic search is disabled without one
+  embeddingProvider?: EmbeddingProvider;
+  // Scope whose categories shadow the same categories of the other scopes when reading several,
+  // 'none' by default
+  scopePrecedence?: ScopePrecedence;
+  // Named scopes besides global and local, such as a team's shared memories, by name with their
+  // storage directory
+  scopes?: Record<string, string>;
+  // Limits on memory size, tags, categories and scope size, none by default
+  quotas?: MemoryQuotas;
+  // Similarity from 0 to 1 from which a remembered memory is a near duplicate of one of its
+  // category, 0.9 by default
+  duplicateThreshold?: number;
+  // Current time, the system clock by default
+  clock?: () => Date;
+}
+
+// Scopes to read, 'both' is the earlier name of 'all' and kept as an alias
+export type ScopeSelection = MemoryScope | 'all' | 'both';
+
+// Which scope wins when several have a category of the same name
+export type ScopePrecedence = MemoryScope | 'none';
+
+// A scope by name, or the global (true) or local (false) scope as picked by the is_global flag
+export type ScopeTarget = MemoryScope | boolean;
+
+export interface DeletedMemory extends Memory {
+  deletedAt: string;
+}
+
+export interface MutationOptions {
+  // Tool or command making the change, recorded in the history
+  origin?: string;
+}
+
+export interface RememberOptions extends MutationOptions {
+  // Time to live in milliseconds, after which the memory expires
+  ttlMs?: number;
+  // When the memory expires, instead of ttlMs
+  expiresAt?: Date;
+  // What to do when the memory duplicates one of its category, 'allow' by default
+  onDuplicate?: DuplicatePolicy;
+}
+
+export interface RememberResult {
+  // The memory stored, or the existing memory a duplicate was merged into
+  memory: Memory;
+  action: 'created' | 'merged';
+  // The existing memory of the category most similar to the remembered one, when it is a
+  // duplicate or near duplicate
+  duplicate?: DuplicateMatch;
+}
+
+export interface HistoryOptions {
+  id?: string;
+  category?: string;
+  limit?: number;
+}
+
+export interface HistoryPruneResult {
+  changes: number;
+  snapshots: number;
+}
+
+export interface SnapshotRestoreResult {
+  snapshot: SnapshotInfo;
+  // Snapshot of the memories as they were before the restore
+  backup: SnapshotInfo;
+  // Memories created, updated or deleted by the restore
+  changes: number;
+}
+
+// How an import treats a memory with the same ID, or the same category and content, as an
+// existing one
+export type ImportStrategy = 'skip' | 'overwrite' | 'keep_both';
+
+export interface ImportResult {
+  created: number;
+  updated: number;
+  skipped: number;
+}
+
+export type MemoryGrouping = 'tag' | 'category' | 'none';
+
+export interface MemoryUpdate {
+  data?: string;
+  tags?: string[];
+  category?: string;
+  // Scope to move the memory to, scope takes precedence over isGlobal
+  scope?: MemoryScope;
+  isGlobal?: boolean;
+}
+
+export interface MemoryUpdateResult {
+  before: Memory;
+  after: Memory;
+}
+
+export interface SearchOptions {
+  query?: string;
+  tags?: string[];
+  excludeTags?: string[];
+  categories?: string[];
+  scope?: ScopeSelection;
+  limit?: number;
+}
+
+export interface SimilarOptions {
+  query: string;
+  categories?: string[];
+  scope?: ScopeSelection;
+  limit?: number;
 }
 
-export class MemoryStorage {
+export interface SearchResult extends Omit<Memory, 'isGlobal'> {
+  scope: MemoryScope;
+  score: number;
+}
+
+// Auxiliary document holding the deleted memories of a scope
+const TRASH_DOCUMENT = 'trash';
+
+const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Auxiliary document holding the change log of a scope
+const HISTORY_DOCUMENT = 'history';
+
+const DEFAULT_HISTORY_RETENTION_DAYS = 90;
+
+// Auxiliary document listing the snapshots of a scope
+const SNAPSHOT_INDEX_DOCUMENT = 'snapshots';
+
+// Auxiliary document holding the memories of a snapshot
+const snapshotDocument = (id: string) => `snapshot-${id}`;
+
+// Auxiliary document holding the embeddings of a scope's memories
+const VECTORS_DOCUMENT = 'vectors';
+
+// Results similar() returns by default
+const DEFAULT_SIMILAR_LIMIT = 5;
+
+// Text the embedding of a memory is computed from
+const embeddingText = (memory: CategorizedMemory): string =>
+  [memory.category, memory.data, memory.tags.join(' ')].join('\n');
+
+// Short hash telling whether a stored vector was computed from the current text
+const hashText = (text: string): string =>
+  createHash('sha256').update(text).digest('hex').slice(0, 16);
+
+// Strip the fields implied by the file a memory is stored in
+const toStoredMemory = (memory: Memory): StoredMemory => ({
+  id: memory.id,
+  data: memory.data,
+  tags: memory.tags,
+  createdAt: memory.createdAt,
+  updatedAt: memory.updatedAt,
+  ...(memory.expiresAt !== undefined && { expiresAt: memory.expiresAt }),
+});
+
+// Keep the category with a memory stored outside its category file
+const toCategorizedMemory = (memory: Memory): CategorizedMemory => ({
+  ...toStoredMemory(memory),
+  category: memory.category,
+});
+
+// Keep the category with a memory moved to the trash
+const toDeletedRecord = (memory: DeletedMemory): DeletedMemoryRecord => ({
+  ...toCategorizedMemory(memory),
+  deletedAt: memory.deletedAt,
+});
+
+// History entries turning one set of memories into another, matched by ID
+const diffMemories = (
+  before: CategorizedMemory[],
+  after: CategorizedMemory[]
+): Omit<HistoryEntry, 'at'>[] => {
+  const previous = new Map(before.map(memory => [memory.id, memory]));
+  const current = new Map(after.map(memory => [memory.id, memory]));
+  const entries: Omit<HistoryEntry, 'at'>[] = [];
+
+  for (const memory of before) {
+    if (!current.has(memory.id)) {
+      entries.push({ type: 'delete', id: memory.id, before: memory });
+    }
+  }
+  for (const memory of after) {
+    const old = previous.get(memory.id);
+    if (!old) {
+      entries.push({ type: 'create', id: memory.id, after: memory });
+    } else if (JSON.stringify(old) !== JSON.stringify(memory)) {
+      entries.push({ type: 'update', id: memory.id, before: old, after: memory });
+    }
+  }
+  return entries;
+};
+
+// Group memories by tag or category, a memory with several tags appears under each of them
+export function groupMemories(memories: Memory[], groupBy: 'none'): Memory[];
+export function groupMemories(
+  memories: Memory[],
+  groupBy: 'tag' | 'category'
+): Record<string, Memory[]>;
+export function groupMemories(
+  memories: Memory[],
+  groupBy: MemoryGrouping
+): Memory[] | Record<string, Memory[]>;
+export function groupMemories(
+  memories: Memory[],
+  groupBy: MemoryGrouping
+): Memory[] | Record<string, Memory[]> {
+  if (groupBy === 'none') {
+    return memories;
+  }
+
+  const groups: Record<string, Memory[]> = {};
+  for (const memory of memories) {
+    const keys =
+      groupBy === 'category'
+        ? [memory.category]
+        : memory.tags.length > 0
+          ? memory.tags
+          : ['untagged'];
+    for (const key of keys) {
+      if (!groups[key]) {
+        groups[key] = [];
+      }
+      groups[key].push(memory);
+    }
+  }
+  return groups;
+}
+
+// Split free text into lowercase search terms
+const tokenize = (text: string): string[] =>
+  text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(term => term.length > 0);
+
+// Score a memory against the query terms, 0 means no match
+const scoreMemory = (memory: Memory, terms: string[], phrase: string): number => {
+  if (terms.length === 0) {
+    return 1;
+  }
+
+  const data = memory.data.toLowerCase();
+  const tags = memory.tags.map(tag => tag.toLowerCase());
+  const category = memory.category.toLowerCase();
+
+  let score = 0;
+  let matchedTerms = 0;
+  for (const term of terms) {
+    const inData = data.includes(term);
+    const inTags = tags.some(tag => tag.includes(term));
+    const inCategory = category.includes(term);
+    if (inData || inTags || inCategory) {
+      matchedTerms++;
+    }
+    score += (inData ? 1 : 0) + (inTags ? 0.5 : 0) + (inCategory ? 0.25 : 0);
+  }
+
+  if (matchedTerms === 0) {
+    return 0;
+  }
+
+  // Favour memories containing the query as a whole and matching more of its terms
+  if (terms.length > 1 && data.includes(phrase)) {
+    score += 1;
+  }
+  return Math.round(score * (matchedTerms / terms.length) * 1000) / 1000;
+};
+
+// Whether a memory is matched by a content-based removal
+const matchesContent = (memory: Memory, memoryContent: string): boolean =>
+  memory.data.includes(memoryContent);
+
+// Map the is_global flag used by tools to a storage scope
+const scopeOf = (target: ScopeTarget): MemoryScope =>
+  typeof target === 'boolean' ? (target ? 'global' : 'local') : target;
+
+// Fields of a memory telling which scope it is in
+const scopeFields = (scope: MemoryScope) => ({ scope, isGlobal: scope === 'global' });
+
+// Emits a `change` event after every mutation, so servers can notify their clients
+export class MemoryStorage extends EventEmitter<MemoryStorageEvents> {
+  private backend: StorageBackend;
+  private trashRetentionDays: number;
+  private historyRetentionDays: number;
+  private embeddingProvider?: EmbeddingProvider;
+  private scopePrecedence: ScopePrecedence;
+  private namedScopes: string[];
+  private memoryQuotas: MemoryQuotas;
+  private duplicateThreshold: number;
+  private clock: () => Date;
+
   constructor(
-    private globalStorageLocation: string,
-    private localStorageLocation: string
-  ) {}
+    globalStorageLocation: string,
+    localStorageLocation: string,
+    options: MemoryStorageOptions = {}
+  ) {
+    super();
+    this.backend =
+      options.backend ??
+      new FileBackend(globalStorageLocation, localStorageLocation, { scopes: options.scopes });
+    this.trashRetentionDays = options.trashRetentionDays ?? DEFAULT_TRASH_RETENTION_DAYS;
+    this.historyRetentionDays = options.historyRetentionDays ?? DEFAULT_HISTORY_RETENTION_DAYS;
+    this.embeddingProvider = options.embeddingProvider;
+    this.scopePrecedence = options.scopePrecedence ?? 'none';
+    this.namedScopes = Object.keys(options.scopes ?? {});
+    this.memoryQuotas = { ...options.quotas };
+    this.duplicateThreshold = options.duplicateThreshold ?? DEFAULT_DUPLICATE_THRESHOLD;
+    this.clock = options.clock ?? (() => new Date());
+    if (this.scopePrecedence !== 'none') {
+      this.resolveScope(this.scopePrecedence);
+    }
+  }
 
-  // Get memory file path
-  private getMemoryFilePath(category: string, isGlobal: boolean): string {
-    const baseDir = isGlobal ? this.globalStorageLocation : this.localStorageLocation;
-    return path.join(baseDir, `${category}.txt`);
+  // Every scope, local first and global last
+  get scopes(): MemoryScope[] {
+    return ['local', ...this.namedScopes, 'global'];
   }
 
-  // Save memory
-  async remember(category: string, data: string, tags: string[], isGlobal: boolean): Promise<void> {
-    const filePath = this.getMemoryFilePath(category, isGlobal);
+  // Scopes a selection covers, in the order of scopes
+  selectedScopes(selection: ScopeSelection): MemoryScope[] {
+    return selection === 'all' || selection === 'both'
+      ? this.scopes
+      : [this.resolveScope(selection)];
+  }
 
-    let content = '';
-    if (tags.length > 0) {
-      content += `# ${tags.join(' ')}\\n`;
+  // The scope a method was called for, rejecting names that are not configured
+  private resolveScope(target: ScopeTarget): MemoryScope {
+    const scope = scopeOf(target);
+    if (!this.scopes.includes(scope)) {
+      throw new Error(`Unknown scope: ${scope}, available scopes are ${this.scopes.join(', ')}`);
     }
-    content += `${data}\\n\\n`;
+    return scope;
+  }
 
-    await fs.promises.appendFile(filePath, content);
+  // Limits every scope is held to
+  get quotas(): MemoryQuotas {
+    return { ...this.memoryQuotas };
   }
 
-  // Retrieve memory
-  async retrieve(category: string, isGlobal: boolean): Promise<Record<string, string[]>> {
-    const filePath = this.getMemoryFilePath(category, isGlobal);
+  // Whether similar() can be used, which needs an embedding provider
+  get semanticSearch(): boolean {
+    return this.embeddingProvider !== undefined;
+  }
 
-    if (!fs.existsSync(filePath)) {
-      return {};
+  // Watch the storage for changes made outside this process, emitting `change` events for them.
+  // Resolves with a function that stops watching.
+  async watch(): Promise<() => void> {
+    if (!this.backend.watch) {
+      return () => {};
     }
+    return this.backend.watch(change => this.emit('change', { type: 'reload', ...change }));
+  }
 
-    const content = await fs.promises.readFile(filePath, 'utf-8');
-    const memories: Record<string, string[]> = {};
+  // Run a mutation holding the locks of the given scopes, always taken in the same order
+  private mutate<T>(scopes: MemoryScope[], fn: () => Promise<T>): Promise<T> {
+    const [first, ...rest] = [...new Set(scopes)].sort();
+    return this.backend.withLock(first, () => (rest.length > 0 ? this.mutate(rest, fn) : fn()));
+  }
 
-    for (const entry of content.split('\\n\\n')) {
-      if (!entry.trim()) continue;
+  // Save memory
+  async remember(
+    category: string,
+    data: string,
+    tags: string[],
+    target: ScopeTarget,
+    options: RememberOptions = {}
+  ): Promise<Memory> {
+    const { memory } = await this.rememberChecked(category, data, tags, target, options);
+    return memory;
+  }
 
-      const lines = entry.split('\\n');
-      const firstLine = lines[0];
+  // Save memory, telling which existing memory of its category it duplicates. A duplicate is
+  // rejected, merged into the existing memory or stored anyway as options.onDuplicate says. Only
+  // exact duplicates are merged, a near duplicate may state a different fact and is stored.
+  async rememberChecked(
+    category: string,
+    data: string,
+    tags: string[],
+    target: ScopeTarget,
+    options: RememberOptions = {}
+  ): Promise<RememberResult> {
+    const scope = this.resolveScope(target);
+    const now = this.clock();
+    const expiresAt = this.expiryOf(now, options);
+    const memory: Memory = {
+      id: randomUUID(),
+      category: normalizeCategory(category),
+      data,
+      tags,
+      ...scopeFields(scope),
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+      ...(expiresAt !== undefined && { expiresAt }),
+    };
 
-      if (firstLine.startsWith('#')) {
-        const tags = firstLine.substring(1).trim().split(/\\s+/);
-        const tagKey = tags.join(' ');
-        memories[tagKey] = lines.slice(1).filter(line => line.trim());
-      } else {
-        const untaggedKey = 'untagged';
-        if (!memories[untaggedKey]) {
-          memories[untaggedKey] = [];
+    // A duplicate whose tags are all there already leaves the memories as they were
+    let changed = true;
+    const result = await this.mutate([scope], async (): Promise<RememberResult> => {
+      const entries = await this.readEntries(memory.category, scope);
+      const duplicate = this.findDuplicate(memory.data, entries);
+      if (duplicate && options.onDuplicate === 'reject') {
+        throw new DuplicateMemoryError(duplicate);
+      }
+      if (duplicate?.similarity === 1 && options.onDuplicate === 'merge') {
+        const existing = entries.find(entry => entry.id === duplicate.id) as Memory;
+        const mergedTags = [...new Set([...existing.tags, ...memory.tags])];
+        if (mergedTags.length === existing.tags.length) {
+          changed = false;
+          return { memory: existing, action: 'merged', duplicate };
         }
-        memories[untaggedKey].push(...lines.filter(line => line.trim()));
+
+        const merged: Memory = { ...existing, tags: mergedTags, updatedAt: now.toISOString() };
+        await this.checkQuotas(scope, [merged]);
+        await this.writeEntries(
+          memory.category,
+          scope,
+          entries.map(entry => (entry.id === merged.id ? merged : entry))
+        );
+        await this.recordHistory(
+          scope,
+          [
+            {
+              type: 'update',
+              id: merged.id,
+              before: toCategorizedMemory(existing),
+              after: toCategorizedMemory(merged),
+            },
+          ],
+          options
+        );
+        return { memory: merged, action: 'merged', duplicate };
+      }
+
+      await this.checkQuotas(scope, [memory]);
+      await this.backend.appendMemory(scope, memory.category, toStoredMemory(memory));
+      await this.recordHistory(
+        scope,
+        [{ type: 'create', id: memory.id, after: toCategorizedMemory(memory) }],
+        options
+      );
+      return { memory, action: 'created', duplicate };
+    });
+
+    if (changed) {
+      this.emit('change', {
+        type: result.action === 'created' ? 'create' : 'update',
+        scope,
+        category: memory.category,
+        ids: [result.memory.id],
+      });
+    }
+    return result;
+  }
+
+  // The unexpired memory most similar to the data when it is at least as similar as the
+  // duplicate threshold
+  private findDuplicate(data: string, entries: Memory[]): DuplicateMatch | undefined {
+    let best: DuplicateMatch | undefined;
+    for (const entry of entries) {
+      if (this.isExpired(entry)) continue;
+      const similarity = textSimilarity(data, entry.data);
+      if (similarity >= this.duplicateThreshold && similarity > (best?.similarity ?? -1)) {
+        best = {
+          id: entry.id,
+          scope: entry.scope,
+          category: entry.category,
+          data: entry.data,
+          similarity,
+        };
       }
     }
+    return best;
+  }
 
+  // When a memory remembered now expires, undefined when it does not
+  private expiryOf(now: Date, options: RememberOptions): string | undefined {
+    const { ttlMs, expiresAt } = options;
+    if (ttlMs !== undefined && expiresAt !== undefined) {
+      throw new Error('Give either a ttl or an expiry time, not both');
+    }
+    if (ttlMs !== undefined) {
+      if (!(ttlMs > 0)) {
+        throw new Error('The ttl must be positive');
+      }
+      return new Date(now.getTime() + ttlMs).toISOString();
+    }
+    if (expiresAt !== undefined) {
+      if (Number.isNaN(expiresAt.getTime()) || expiresAt <= now) {
+        throw new Error('The expiry time must be in the future');
+      }
+      return expiresAt.toISOString();
+    }
+    return undefined;
+  }
+
+  // Whether a memory has expired, expired memories are left out of reads until they are swept
+  private isExpired(memory: Pick<Memory, 'expiresAt'>): boolean {
+    return memory.expiresAt !== undefined && Date.parse(memory.expiresAt) <= this.clock().getTime();
+  }
+
+  // Reject memories added to or changed in a scope when they take it over a quota,
+  // called holding the scope's lock
+  private async checkQuotas(scope: MemoryScope, changed: Memory[]): Promise<void> {
+    for (const memory of changed) {
+      checkMemoryQuotas(memory, scope, this.memoryQuotas);
+    }
+
+    const { maxCategoriesPerScope, maxScopeBytes } = this.memoryQuotas;
+    if (maxCategoriesPerScope === undefined && maxScopeBytes === undefined) {
+      return;
+    }
+    const before = await this.readScope(scope);
+    const ids = new Set(changed.map(memory => memory.id));
+    const after = [...before.filter(memory => !ids.has(memory.id)), ...changed];
+    checkScopeQuotas(before, after, scope, this.memoryQuotas);
+  }
+
+  // Read the entries of a category as memory records, including expired ones
+  private async readEntries(category: string, scope: MemoryScope): Promise<Memory[]> {
+    const memories = await this.backend.readCategory(scope, category);
+    return memories.map(memory => ({ ...memory, category, ...scopeFields(scope) }));
+  }
+
+  // Read every memory of a scope, including expired ones
+  private async readScope(scope: MemoryScope): Promise<Memory[]> {
+    const memories: Memory[] = [];
+    for (const category of await this.listCategories(scope)) {
+      memories.push(...(await this.readEntries(category, scope)));
+    }
     return memories;
   }
 
-  // Retrieve all memories
-  async retrieveAll(isGlobal: boolean): Promise<Record<string, string[]>> {
-    const baseDir = isGlobal ? this.globalStorageLocation : this.localStorageLocation;
-    const memories: Record<string, string[]> = {};
+  // Rewrite a category with the given entries
+  private async writeEntries(
+    category: string,
+    scope: MemoryScope,
+    entries: Memory[]
+  ): Promise<void> {
+    await this.backend.writeCategory(scope, category, entries.map(toStoredMemory));
+  }
 
-    if (!fs.existsSync(baseDir)) {
-      return memories;
+  // Read the trash of a scope, leaving out memories deleted before the retention period
+  private async readTrash(scope: MemoryScope): Promise<DeletedMemory[]> {
+    const content = await this.backend.readDocument(scope, TRASH_DOCUMENT);
+    if (content === undefined) {
+      return [];
     }
 
-    const files = await fs.promises.readdir(baseDir);
+    const cutoff = this.clock().getTime() - this.trashRetentionDays * DAY_MS;
+    return parseRecords(content, deletedMemorySchema, `${scope} trash`)
+      .filter(record => Date.parse(record.deletedAt) >= cutoff)
+      .map(record => ({ ...record, ...scopeFields(scope) }));
+  }
 
-    for (const file of files) {
-      if (file.endsWith('.txt')) {
-        const category = file.replace('.txt', '');
-        const categoryMemories = await this.retrieve(category, isGlobal);
+  // Rewrite the trash of a scope, which also drops the expired memories
+  private async writeTrash(scope: MemoryScope, memories: DeletedMemory[]): Promise<void> {
+    await this.backend.writeDocument(
+      scope,
+      TRASH_DOCUMENT,
+      serializeRecords(memories.map(toDeletedRecord))
+    );
+  }
 
-        // Flatten by category
-        const flatMemories: string[] = [];
-        for (const taggedMemories of Object.values(categoryMemories)) {
-          flatMemories.push(...taggedMemories);
-        }
+  // Move memories to the trash before deleting them and record their deletion,
+  // called holding the scope's lock
+  private async moveToTrash(
+    memories: Memory[],
+    scope: MemoryScope,
+    options: MutationOptions
+  ): Promise<void> {
+    if (memories.length === 0) {
+      return;
+    }
 
-        memories[category] = flatMemories;
-      }
+    const deletedAt = this.clock().toISOString();
+    await this.writeTrash(scope, [
+      ...(await this.readTrash(scope)),
+      ...memories.map(memory => ({ ...memory, deletedAt })),
+    ]);
+    await this.recordHistory(
+      scope,
+      memories.map(memory => ({
+        type: 'delete' as const,
+        id: memory.id,
+        before: toCategorizedMemory(memory),
+      })),
+      options
+    );
+  }
+
+  // Read the stored vectors of a scope by memory ID
+  private async readVectors(scope: MemoryScope): Promise<Map<string, VectorRecord>> {
+    const content = await this.backend.readDocument(scope, VECTORS_DOCUMENT);
+    const records =
+      content === undefined ? [] : parseRecords(content, vectorRecordSchema, `${scope} vectors`);
+    return new Map(records.map(record => [record.id, record]));
+  }
+
+  // Compute the vectors of memories with the configured provider
+  private async embedMemories(
+    provider: EmbeddingProvider,
+    memories: CategorizedMemory[]
+  ): Promise<VectorRecord[]> {
+    if (memories.length === 0) {
+      return [];
+    }
+
+    const texts = memories.map(embeddingText);
+    const vectors = await provider.embed(texts);
+    return memories.map((memory, index) => ({
+      id: memory.id,
+      provider: provider.id,
+      hash: hashText(texts[index]),
+      // Four decimals keep the document small without changing the ranking noticeably
+      vector: vectors[index].map(value => Math.round(value * 1e4) / 1e4),
+    }));
+  }
+
+  // Update the vectors of the changed memories, called holding the scope's lock
+  private async updateVectors(scope: MemoryScope, changes: Omit<HistoryEntry, 'at'>[]) {
+    if (!this.embeddingProvider) {
+      return;
+    }
+
+    const vectors = await this.readVectors(scope);
+    const changed = changes.flatMap(change => (change.after ? [change.after] : []));
+    for (const change of changes.filter(change => !change.after)) {
+      vectors.delete(change.id);
     }
+    for (const record of await this.embedMemories(this.embeddingProvider, changed)) {
+      vectors.set(record.id, record);
+    }
+    await this.backend.writeDocument(
+      scope,
+      VECTORS_DOCUMENT,
+      serializeRecords([...vectors.values()])
+    );
+  }
+
+  // Bring the vectors of a scope up to date with its memories, which also covers memories
+  // changed outside this process or before the provider was configured
+  private async syncVectors(
+    provider: EmbeddingProvider,
+    scope: MemoryScope
+  ): Promise<{ memory: Memory; vector: number[] }[]> {
+    const memories = await this.readScope(scope);
+    const stored = await this.readVectors(scope);
+
+    const stale = memories.filter(memory => {
+      const record = stored.get(memory.id);
+      return (
+        !record ||
+        record.provider !== provider.id ||
+        record.hash !== hashText(embeddingText(toCategorizedMemory(memory)))
+      );
+    });
+    const vectors = new Map(
+      memories.flatMap(memory => {
+        const record = stored.get(memory.id);
+        return record ? [[memory.id, record] as const] : [];
+      })
+    );
+    for (const record of await this.embedMemories(provider, stale.map(toCategorizedMemory))) {
+      vectors.set(record.id, record);
+    }
+
+    if (stale.length > 0 || vectors.size !== stored.size) {
+      await this.backend.writeDocument(
+        scope,
+        VECTORS_DOCUMENT,
+        serializeRecords([...vectors.values()])
+      );
+    }
+    return memories.map(memory => ({ memory, vector: vectors.get(memory.id)!.vector }));
+  }
+
+  // Append changes to the history of a scope and update their vectors, called holding the
+  // scope's lock
+  private async recordHistory(
+    scope: MemoryScope,
+    changes: Omit<HistoryEntry, 'at'>[],
+    options: MutationOptions
+  ): Promise<void> {
+    if (changes.length === 0) {
+      return;
+    }
+
+    const at = this.clock().toISOString();
+    const entries: HistoryEntry[] = changes.map(change => ({
+      at,
+      type: change.type,
+      id: change.id,
+      origin: options.origin,
+      before: change.before,
+      after: change.after,
+    }));
+    await this.backend.appendDocument(scope, HISTORY_DOCUMENT, serializeRecords(entries));
+    await this.updateVectors(scope, changes);
+  }
+
+  // Whether a change made or snapshot taken at the given time is within the history retention
+  // period
+  private isRetained(at: string): boolean {
+    return Date.parse(at) >= this.clock().getTime() - this.historyRetentionDays * DAY_MS;
+  }
+
+  // Read the changes of a scope, oldest first, including those before the retention period
+  private async readHistory(scope: MemoryScope): Promise<HistoryEntry[]> {
+    const content = await this.backend.readDocument(scope, HISTORY_DOCUMENT);
+    return content === undefined
+      ? []
+      : parseRecords(completeLines(content), historyEntrySchema, `${scope} history`);
+  }
+
+  // Read the snapshot index of a scope, oldest first, including snapshots taken before the
+  // retention period
+  private async readSnapshotIndex(scope: MemoryScope): Promise<SnapshotInfo[]> {
+    const content = await this.backend.readDocument(scope, SNAPSHOT_INDEX_DOCUMENT);
+    return content === undefined
+      ? []
+      : parseRecords(completeLines(content), snapshotInfoSchema, `${scope} snapshots`);
+  }
+
+  // Save the current memories of a scope as a snapshot, called holding the scope's lock
+  private async createSnapshot(scope: MemoryScope, label?: string): Promise<SnapshotInfo> {
+    const memories = (await this.readScope(scope)).map(toCategorizedMemory);
+    const snapshot: SnapshotInfo = {
+      id: randomUUID(),
+      label,
+      createdAt: this.clock().toISOString(),
+      count: memories.length,
+    };
+
+    await this.backend.writeDocument(
+      scope,
+      snapshotDocument(snapshot.id),
+      serializeRecords(memories)
+    );
+    await this.backend.appendDocument(scope, SNAPSHOT_INDEX_DOCUMENT, serializeRecords([snapshot]));
+    return snapshot;
+  }
+
+  // List the categories stored in global or local memory
+  async listCategories(target: ScopeTarget): Promise<string[]> {
+    const scope = this.resolveScope(target);
+    return this.backend.listCategories(scope);
+  }
+
+  // Retrieve memory, leaving out expired memories
+  async retrieve(category: string, target: ScopeTarget): Promise<Memory[]> {
+    const scope = this.resolveScope(target);
+    const memories = await this.readEntries(normalizeCategory(category), scope);
+    return memories.filter(memory => !this.isExpired(memory));
+  }
+
+  // Retrieve all memories, leaving out expired memories
+  async retrieveAll(target: ScopeTarget): Promise<Memory[]> {
+    const scope = this.resolveScope(target);
+    return (await this.readScope(scope)).filter(memory => !this.isExpired(memory));
+  }
+
+  // Measure what the memories of a scope use of the quotas, expired memories count until swept
+  async usage(target: ScopeTarget): Promise<QuotaUsage> {
+    return measureUsage(await this.readScope(this.resolveScope(target)));
+  }
+
+  // Whether a category of a scope is visible when reading the given scopes. Reading several, the
+  // categories of the scope taking precedence shadow those of the same name in the other ones.
+  private async visibility(
+    scopes: MemoryScope[]
+  ): Promise<(scope: MemoryScope, category: string) => boolean> {
+    const preferred = this.scopePrecedence;
+    if (preferred === 'none' || scopes.length < 2 || !scopes.includes(preferred)) {
+      return () => true;
+    }
+
+    const shadowing = new Set(await this.listCategories(preferred));
+    return (scope, category) => scope === preferred || !shadowing.has(category);
+  }
+
+  // Retrieve the memories of one category, or all of them, from the selected scopes, leaving out
+  // shadowed categories
+  async retrieveScoped(selection: ScopeSelection, category?: string): Promise<Memory[]> {
+    const scopes = this.selectedScopes(selection);
+    const visible = await this.visibility(scopes);
 
+    const memories: Memory[] = [];
+    for (const scope of scopes) {
+      const scoped =
+        category === undefined
+          ? await this.retrieveAll(scope)
+          : await this.retrieve(category, scope);
+      memories.push(...scoped.filter(memory => visible(scope, memory.category)));
+    }
     return memories;
   }
 
+  // Find the memories closest in meaning to a query, best matches first
+  async similar(options: SimilarOptions): Promise<SearchResult[]> {
+    const provider = this.embeddingProvider;
+    if (!provider) {
+      throw new Error('Semantic search is disabled, start the server with --semantic-search');
+    }
+
+    const { query, categories, scope = 'all', limit = DEFAULT_SIMILAR_LIMIT } = options;
+    const scopes = this.selectedScopes(scope);
+    const categoryFilter = categories?.map(normalizeCategory);
+    const visible = await this.visibility(scopes);
+    const [queryVector] = await provider.embed([query]);
+
+    const results: SearchResult[] = [];
+    for (const memoryScope of scopes) {
+      const entries = await this.mutate([memoryScope], () =>
+        this.syncVectors(provider, memoryScope)
+      );
+      for (const { memory, vector } of entries) {
+        if (this.isExpired(memory)) continue;
+        if (categoryFilter && !categoryFilter.includes(memory.category)) continue;
+        if (!visible(memoryScope, memory.category)) continue;
+
+        const score = Math.round(cosineSimilarity(queryVector, vector) * 1000) / 1000;
+        if (score <= 0) continue;
+
+        results.push({
+          id: memory.id,
+          category: memory.category,
+          data: memory.data,
+          tags: memory.tags,
+          createdAt: memory.createdAt,
+          updatedAt: memory.updatedAt,
+          expiresAt: memory.expiresAt,
+          scope: memoryScope,
+          score,
+        });
+      }
+    }
+
+    return results.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+
+  // Find the memories of a category that removeSpecificMemory would remove
+  async findByContent(
+    category: string,
+    memoryContent: string,
+    target: ScopeTarget
+  ): Promise<Memory[]> {
+    const scope = this.resolveScope(target);
+    const memories = await this.retrieve(category, scope);
+    return memories.filter(memory => matchesContent(memory, memoryContent));
+  }
+
+  // Search memories by content, tags and category, best matches first
+  async search(options: SearchOptions): Promise<SearchResult[]> {
+    const { query = '', tags = [], excludeTags = [], categories, scope = 'all' } = options;
+    const terms = tokenize(query);
+    const phrase = query.trim().toLowerCase();
+    const requiredTags = tags.map(tag => tag.toLowerCase());
+    const excludedTags = excludeTags.map(tag => tag.toLowerCase());
+    const scopes = this.selectedScopes(scope);
+    const categoryFilter = categories?.map(normalizeCategory);
+    const visible = await this.visibility(scopes);
+
+    const results: SearchResult[] = [];
+    for (const memoryScope of scopes) {
+      const available = (await this.listCategories(memoryScope)).filter(category =>
+        visible(memoryScope, category)
+      );
+      const searchCategories = categoryFilter
+        ? available.filter(category => categoryFilter.includes(category))
+        : available;
+
+      for (const category of searchCategories) {
+        for (const memory of await this.readEntries(category, memoryScope)) {
+          if (this.isExpired(memory)) continue;
+          const memoryTags = memory.tags.map(tag => tag.toLowerCase());
+          if (!requiredTags.every(tag => memoryTags.includes(tag))) continue;
+          if (excludedTags.some(tag => memoryTags.includes(tag))) continue;
+
+          const score = scoreMemory(memory, terms, phrase);
+          if (score === 0) continue;
+
+          results.push({
+            id: memory.id,
+            category,
+            data: memory.data,
+            tags: memory.tags,
+            createdAt: memory.createdAt,
+            updatedAt: memory.updatedAt,
+            expiresAt: memory.expiresAt,
+            scope: memoryScope,
+            score,
+          });
+        }
+      }
+    }
+
+    results.sort((a, b) => b.score - a.score);
+    return options.limit !== undefined ? results.slice(0, options.limit) : results;
+  }
+
   // Remove specific memory
   async removeSpecificMemory(
     category: string,
     memoryContent: string,
-    isGlobal: boolean
+    target: ScopeTarget,
+    options: MutationOptions = {}
+  ): Promise<Memory[]> {
+    const scope = this.resolveScope(target);
+    const normalized = normalizeCategory(category);
+    const removed = await this.mutate([scope], async () => {
+      const entries = await this.readEntries(normalized, scope);
+      const matches = entries.filter(
+        memory => matchesContent(memory, memoryContent) && !this.isExpired(memory)
+      );
+      if (matches.length > 0) {
+        await this.moveToTrash(matches, scope, options);
+        await this.writeEntries(
+          normalized,
+          scope,
+          entries.filter(memory => !matches.includes(memory))
+        );
+      }
+      return matches;
+    });
+
+    if (removed.length > 0) {
+      this.emit('change', {
+        type: 'delete',
+        scope,
+        category: normalized,
+        ids: removed.map(memory => memory.id),
+      });
+    }
+    return removed;
+  }
+
+  // Remove the memory with the given ID
+  async removeMemory(
+    category: string,
+    id: string,
+    target: ScopeTarget,
+    options: MutationOptions = {}
+  ): Promise<Memory | undefined> {
+    const scope = this.resolveScope(target);
+    const normalized = normalizeCategory(category);
+    const removed = await this.mutate([scope], async () => {
+      const entries = await this.readEntries(normalized, scope);
+      const match = entries.find(memory => memory.id === id);
+      if (match) {
+        await this.moveToTrash([match], scope, options);
+        await this.writeEntries(
+          normalized,
+          scope,
+          entries.filter(memory => memory !== match)
+        );
+      }
+      return match;
+    });
+
+    if (removed) {
+      this.emit('change', {
+        type: 'delete',
+        scope,
+        category: normalized,
+        ids: [removed.id],
+      });
+    }
+    return removed;
+  }
+
+  // Find a memory by ID, looking in every category when none is given. Expired memories are
+  // not found.
+  async get(id: string, target: ScopeTarget, category?: string): Promise<Memory | undefined> {
+    const scope = this.resolveScope(target);
+    const categories = category ? [normalizeCategory(category)] : await this.listCategories(scope);
+
+    for (const memoryCategory of categories) {
+      const memory = (await this.readEntries(memoryCategory, scope)).find(entry => entry.id === id);
+      if (memory) {
+        return this.isExpired(memory) ? undefined : memory;
+      }
+    }
+    return undefined;
+  }
+
+  // Update a memory in place, optionally moving it to another category or scope
+  async update(
+    id: string,
+    target: ScopeTarget,
+    changes: MemoryUpdate,
+    options: MutationOptions = {}
+  ): Promise<MemoryUpdateResult | undefined> {
+    const scope = this.resolveScope(target);
+    const category =
+      changes.category !== undefined ? normalizeCategory(changes.category) : undefined;
+    const targetScope = this.resolveScope(changes.scope ?? changes.isGlobal ?? scope);
+    return this.mutate([scope, targetScope], () =>
+      this.applyUpdate(id, scope, targetScope, changes, category, options)
+    );
+  }
+
+  // Update a memory while holding the locks of its source and target scopes
+  private async applyUpdate(
+    id: string,
+    scope: MemoryScope,
+    targetScope: MemoryScope,
+    changes: MemoryUpdate,
+    category: string | undefined,
+    options: MutationOptions
+  ): Promise<MemoryUpdateResult | undefined> {
+    const before = await this.get(id, scope);
+    if (!before) {
+      return undefined;
+    }
+
+    const after: Memory = {
+      ...before,
+      data: changes.data ?? before.data,
+      tags: changes.tags ?? before.tags,
+      category: category ?? before.category,
+      ...scopeFields(targetScope),
+      updatedAt: this.clock().toISOString(),
+    };
+    await this.checkQuotas(after.scope, [after]);
+
+    const entries = await this.readEntries(before.category, before.scope);
+    if (after.category === before.category && after.scope === before.scope) {
+      // Same file, keep the memory at its position
+      await this.writeEntries(
+        before.category,
+        before.scope,
+        entries.map(entry => (entry.id === id ? after : entry))
+      );
+      await this.recordHistory(
+        before.scope,
+        [
+          {
+            type: 'update',
+            id,
+            before: toCategorizedMemory(before),
+            after: toCategorizedMemory(after),
+          },
+        ],
+        options
+      );
+      this.emit('change', {
+        type: 'update',
+        scope: before.scope,
+        category: before.category,
+        ids: [id],
+      });
+    } else {
+      const target = await this.readEntries(after.category, after.scope);
+      await this.writeEntries(after.category, after.scope, [...target, after]);
+      await this.writeEntries(
+        before.category,
+        before.scope,
+        entries.filter(entry => entry.id !== id)
+      );
+      if (after.scope === before.scope) {
+        await this.recordHistory(
+          before.scope,
+          [
+            {
+              type: 'update',
+              id,
+              before: toCategorizedMemory(before),
+              after: toCategorizedMemory(after),
+            },
+          ],
+          options
+        );
+      } else {
+        // Each scope keeps its own history, the move leaves one and enters the other
+        await this.recordHistory(
+          before.scope,
+          [{ type: 'delete', id, before: toCategorizedMemory(before) }],
+          options
+        );
+        await this.recordHistory(
+          after.scope,
+          [{ type: 'create', id, after: toCategorizedMemory(after) }],
+          options
+        );
+      }
+      this.emit('change', {
+        type: 'delete',
+        scope: before.scope,
+        category: before.category,
+        ids: [id],
+      });
+      this.emit('change', {
+        type: 'create',
+        scope: after.scope,
+        category: after.category,
+        ids: [id],
+      });
+    }
+
+    return { before, after };
+  }
+
+  // Add imported memories to a scope, merging those already present according to the strategy
+  async importMemories(
+    records: ImportedMemory[],
+    target: ScopeTarget,
+    strategy: ImportStrategy,
+    options: MutationOptions = {}
+  ): Promise<ImportResult> {
+    const scope = this.resolveScope(target);
+    const contentKey = (memory: { category: string; data: string }) =>
+      `${memory.category}\n${memory.data}`;
+
+    const { result, changes } = await this.mutate([scope], async () => {
+      const current = await this.readScope(scope);
+      const memories = [...current];
+      const touched = new Set<string>();
+      const result: ImportResult = { created: 0, updated: 0, skipped: 0 };
+
+      for (const record of records) {
+        // A temporary memory that expired since it was exported is not brought back
+        if (this.isExpired(record)) {
+          result.skipped++;
+          continue;
+        }
+
+        const now = this.clock().toISOString();
+        const existing =
+          memories.find(memory => record.id !== undefined && memory.id === record.id) ??
+          memories.find(memory => contentKey(memory) === contentKey(record));
+
+        if (existing && strategy === 'skip') {
+          result.skipped++;
+          continue;
+        }
+
+        checkMemoryQuotas(record, scope, this.memoryQuotas);
+        if (existing && strategy === 'overwrite') {
+          const updated: Memory = {
+            ...existing,
+            category: record.category,
+            data: record.data,
+            tags: record.tags,
+            updatedAt: record.updatedAt ?? now,
+            expiresAt: record.expiresAt,
+          };
+          if (updated.category === existing.category) {
+            memories[memories.indexOf(existing)] = updated;
+          } else {
+            memories.splice(memories.indexOf(existing), 1);
+            memories.push(updated);
+          }
+          touched.add(existing.category).add(updated.category);
+          result.updated++;
+          continue;
+        }
+
+        // Keeping both gives the imported copy a new ID when its own is taken
+        const idTaken = memories.some(memory => memory.id === record.id);
+        const createdAt = record.createdAt ?? now;
+        memories.push({
+          id: record.id !== undefined && !idTaken ? record.id : randomUUID(),
+          category: record.category,
+          data: record.data,
+          tags: record.tags,
+          ...scopeFields(scope),
+          createdAt,
+          updatedAt: record.updatedAt ?? createdAt,
+          ...(record.expiresAt !== undefined && { expiresAt: record.expiresAt }),
+        });
+        touched.add(record.category);
+        result.created++;
+      }
+      checkScopeQuotas(current, memories, scope, this.memoryQuotas);
+
+      for (const category of touched) {
+        await this.writeEntries(
+          category,
+          scope,
+          memories.filter(memory => memory.category === category)
+        );
+      }
+      const changes = diffMemories(
+        current.map(toCategorizedMemory),
+        memories.map(toCategorizedMemory)
+      );
+      await this.recordHistory(scope, changes, options);
+      return { result, changes };
+    });
+
+    // One event per kind of change and category, a memory moved by an overwrite is in both
+    const events = new Map<string, MemoryChangeEvent>();
+    for (const change of changes) {
+      for (const category of new Set([change.before?.category, change.after?.category])) {
+        if (category === undefined) continue;
+        const key = `${change.type}\n${category}`;
+        const event = events.get(key) ?? { type: change.type, scope, category, ids: [] };
+        event.ids.push(change.id);
+        events.set(key, event);
+      }
+    }
+    for (const event of events.values()) {
+      this.emit('change', event);
+    }
+    return result;
+  }
+
+  // Clear all memories in a category, moving them to the trash
+  async clearMemory(
+    category: string,
+    target: ScopeTarget,
+    options: MutationOptions = {}
   ): Promise<void> {
-    const filePath = this.getMemoryFilePath(category, isGlobal);
+    const scope = this.resolveScope(target);
+    const normalized = normalizeCategory(category);
+    await this.mutate([scope], async () => {
+      await this.moveToTrash(await this.readEntries(normalized, scope), scope, options);
+      await this.backend.deleteCategory(scope, normalized);
+    });
+    this.emit('change', { type: 'clear', scope: scope, category: normalized, ids: [] });
+  }
 
-    if (!fs.existsSync(filePath)) {
-      return;
+  // Clear all global or local memories, moving them to the trash
+  async clearAllGlobalOrLocalMemories(
+    target: ScopeTarget,
+    options: MutationOptions = {}
+  ): Promise<void> {
+    const scope = this.resolveScope(target);
+    await this.mutate([scope], async () => {
+      await this.moveToTrash(await this.readScope(scope), scope, options);
+      await this.backend.clearScope(scope);
+    });
+    this.emit('change', { type: 'clear', scope: scope, ids: [] });
+  }
+
+  // Move the expired memories of every scope to the trash, returning them
+  async sweepExpired(options: MutationOptions = { origin: 'expiry' }): Promise<Memory[]> {
+    const swept: Memory[] = [];
+    for (const scope of this.scopes) {
+      const expired = await this.mutate([scope], async () => {
+        const categories = new Map<string, Memory[]>();
+        for (const category of await this.listCategories(scope)) {
+          const entries = await this.readEntries(category, scope);
+          if (entries.some(memory => this.isExpired(memory))) {
+            categories.set(category, entries);
+          }
+        }
+
+        // Decide once, the clock moves on while the files are written
+        const expired = [...categories.values()].flat().filter(memory => this.isExpired(memory));
+        await this.moveToTrash(expired, scope, options);
+        for (const [category, entries] of categories) {
+          await this.writeEntries(
+            category,
+            scope,
+            entries.filter(memory => !expired.includes(memory))
+          );
+        }
+        return expired;
+      });
+
+      for (const [category, memories] of Object.entries(groupMemories(expired, 'category'))) {
+        this.emit('change', {
+          type: 'delete',
+          scope,
+          category,
+          ids: memories.map(memory => memory.id),
+        });
+      }
+      swept.push(...expired);
     }
+    return swept;
+  }
 
-    const content = await fs.promises.readFile(filePath, 'utf-8');
-    const memories = content.split('\\n\\n');
-    const newMemories = memories.filter(memory => !memory.includes(memoryContent));
+  // List the memories in the trash, most recently deleted first
+  async listDeleted(target: ScopeTarget, category?: string): Promise<DeletedMemory[]> {
+    const scope = this.resolveScope(target);
+    const normalized = category !== undefined ? normalizeCategory(category) : undefined;
+    const trash = await this.readTrash(scope);
 
-    await fs.promises.writeFile(filePath, newMemories.join('\\n\\n'));
+    // Newest entries are at the end of the trash, reverse first so ties keep that order
+    return [...trash]
+      .reverse()
+      .filter(memory => normalized === undefined || memory.category === normalized)
+      .sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
   }
 
-  // Clear all memories in a category
-  async clearMemory(category: string, isGlobal: boolean): Promise<void> {
-    const filePath = this.getMemoryFilePath(category, isGlobal);
+  // Move a memory from the trash back to the end of its category
+  async restore(
+    id: string,
+    target: ScopeTarget,
+    options: MutationOptions = {}
+  ): Promise<Memory | undefined> {
+    const scope = this.resolveScope(target);
+    const restored = await this.mutate([scope], async () => {
+      const trash = await this.readTrash(scope);
+      const deleted = trash.find(memory => memory.id === id);
+      if (!deleted) {
+        return undefined;
+      }
 
-    if (fs.existsSync(filePath)) {
-      await fs.promises.unlink(filePath);
+      const memory: Memory = {
+        id: deleted.id,
+        category: deleted.category,
+        data: deleted.data,
+        tags: deleted.tags,
+        ...scopeFields(scope),
+        createdAt: deleted.createdAt,
+        updatedAt: deleted.updatedAt,
+        // A memory restored after it expired is kept for good
+        ...(deleted.expiresAt !== undefined &&
+          !this.isExpired(deleted) && { expiresAt: deleted.expiresAt }),
+      };
+      await this.checkQuotas(scope, [memory]);
+      await this.backend.appendMemory(scope, memory.category, toStoredMemory(memory));
+      await this.writeTrash(
+        scope,
+        trash.filter(entry => entry !== deleted)
+      );
+      await this.recordHistory(
+        scope,
+        [{ type: 'create', id, after: toCategorizedMemory(memory) }],
+        options
+      );
+      return memory;
+    });
+
+    if (restored) {
+      this.emit('change', {
+        type: 'create',
+        scope,
+        category: restored.category,
+        ids: [restored.id],
+      });
     }
+    return restored;
   }
 
-  // Clear all global or local memories
-  async clearAllGlobalOrLocalMemories(isGlobal: boolean): Promise<void> {
-    const baseDir = isGlobal ? this.globalStorageLocation : this.localStorageLocation;
+  // Permanently remove a memory from the trash, or every memory in it when no ID is given
+  async purge(target: ScopeTarget, id?: string): Promise<DeletedMemory[]> {
+    const scope = this.resolveScope(target);
+    return this.mutate([scope], async () => {
+      const trash = await this.readTrash(scope);
+      const purged = id === undefined ? trash : trash.filter(memory => memory.id === id);
+
+      if (purged.length > 0) {
+        await this.writeTrash(
+          scope,
+          trash.filter(memory => !purged.includes(memory))
+        );
+      }
+      return purged;
+    });
+  }
+
+  // List the changes of a scope, most recent first, optionally only those of one memory or category
+  async history(target: ScopeTarget, options: HistoryOptions = {}): Promise<HistoryEntry[]> {
+    const scope = this.resolveScope(target);
+    const category =
+      options.category !== undefined ? normalizeCategory(options.category) : undefined;
+    const entries = (await this.readHistory(scope))
+      .filter(entry => this.isRetained(entry.at))
+      .filter(entry => options.id === undefined || entry.id === options.id)
+      .filter(
+        entry =>
+          category === undefined ||
+          entry.before?.category === category ||
+          entry.after?.category === category
+      )
+      .reverse();
+    return options.limit !== undefined ? entries.slice(0, options.limit) : entries;
+  }
+
+  // Drop the changes and snapshots of every scope older than the retention period. Reads leave
+  // them out already, this frees their space as the history is only ever appended to.
+  async pruneHistory(): Promise<HistoryPruneResult> {
+    const pruned: HistoryPruneResult = { changes: 0, snapshots: 0 };
+    for (const scope of this.scopes) {
+      await this.mutate([scope], async () => {
+        const entries = await this.readHistory(scope);
+        const keptEntries = entries.filter(entry => this.isRetained(entry.at));
+        if (keptEntries.length < entries.length) {
+          await this.backend.writeDocument(scope, HISTORY_DOCUMENT, serializeRecords(keptEntries));
+          pruned.changes += entries.length - keptEntries.length;
+        }
+
+        const snapshots = await this.readSnapshotIndex(scope);
+        const expired = snapshots.filter(snapshot => !this.isRetained(snapshot.createdAt));
+        if (expired.length > 0) {
+          await this.backend.writeDocument(
+            scope,
+            SNAPSHOT_INDEX_DOCUMENT,
+            serializeRecords(snapshots.filter(snapshot => !expired.includes(snapshot)))
+          );
+          for (const snapshot of expired) {
+            await this.backend.deleteDocument(scope, snapshotDocument(snapshot.id));
+          }
+          pruned.snapshots += expired.length;
+        }
+      });
+    }
+    return pruned;
+  }
+
+  // Save the current memories of a scope as a snapshot that can be restored later
+  async snapshot(target: ScopeTarget, label?: string): Promise<SnapshotInfo> {
+    const scope = this.resolveScope(target);
+    return this.mutate([scope], () => this.createSnapshot(scope, label));
+  }
+
+  // List the snapshots of a scope, most recent first
+  async listSnapshots(target: ScopeTarget): Promise<SnapshotInfo[]> {
+    const scope = this.resolveScope(target);
+    return (await this.readSnapshotIndex(scope))
+      .filter(snapshot => this.isRetained(snapshot.createdAt))
+      .reverse();
+  }
+
+  // Roll a scope back to a snapshot, after taking a snapshot of its current memories
+  async restoreSnapshot(
+    id: string,
+    target: ScopeTarget,
+    options: MutationOptions = {}
+  ): Promise<SnapshotRestoreResult | undefined> {
+    const scope = this.resolveScope(target);
+    const result = await this.mutate([scope], async () => {
+      const snapshot = (await this.readSnapshotIndex(scope)).find(
+        entry => entry.id === id && this.isRetained(entry.createdAt)
+      );
+      if (!snapshot) {
+        return undefined;
+      }
+
+      const content = (await this.backend.readDocument(scope, snapshotDocument(id))) ?? '';
+      const memories = parseRecords(content, categorizedMemorySchema, `${scope} snapshot ${id}`);
+      const current = (await this.readScope(scope)).map(toCategorizedMemory);
+      const backup = await this.createSnapshot(scope, `Before restoring snapshot ${id}`);
+
+      const categories = new Map<string, StoredMemory[]>();
+      for (const memory of memories) {
+        categories.set(memory.category, [
+          ...(categories.get(memory.category) ?? []),
+          {
+            id: memory.id,
+            data: memory.data,
+            tags: memory.tags,
+            createdAt: memory.createdAt,
+            updatedAt: memory.updatedAt,
+            ...(memory.expiresAt !== undefined && { expiresAt: memory.expiresAt }),
+          },
+        ]);
+      }
+      await this.backend.clearScope(scope);
+      for (const [category, entries] of categories) {
+        await this.backend.writeCategory(scope, category, entries);
+      }
+
+      const changes = diffMemories(current, memories);
+      await this.recordHistory(scope, changes, options);
+      return { snapshot, backup, changes: changes.map(change => change.id) };
+    });
 
-    if (fs.existsSync(baseDir)) {
-      await fs.promises.rm(baseDir, { recursive: true, force: true });
-      await fs.promises.mkdir(baseDir, { recursive: true });
+    if (!result) {
+      return undefined;
     }
+    this.emit('change', { type: 'restore', scope, ids: result.changes });
+    return { snapshot: result.snapshot, backup: result.backup, changes: result.changes.length };
   }
 }
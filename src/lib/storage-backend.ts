@@ -0,0 +1,57 @@
+import { StoredMemory } from './memory-format.js';
+
+// 'global', 'local' or the name of an additional scope, such as a team's shared memories
+export type MemoryScope = 'global' | 'local' | (string & {});
+
+// A category changed by someone other than the backend itself, such as an editor or another process
+export interface StorageChange {
+  scope: MemoryScope;
+  category: string;
+  // IDs of the memories added, changed or removed
+  ids: string[];
+}
+
+export type StorageChangeListener = (change: StorageChange) => void;
+
+// Where MemoryStorage keeps its categories. Implementations only move stored records
+// around; IDs, timestamps and validation of tool input stay in MemoryStorage.
+export interface StorageBackend {
+  // List the categories of a scope, sorted by name
+  listCategories(scope: MemoryScope): Promise<string[]>;
+
+  // Read the memories of a category, empty when the category does not exist
+  readCategory(scope: MemoryScope, category: string): Promise<StoredMemory[]>;
+
+  // Replace the memories of a category
+  writeCategory(scope: MemoryScope, category: string, memories: StoredMemory[]): Promise<void>;
+
+  // Add a memory to the end of a category, creating the category if needed
+  appendMemory(scope: MemoryScope, category: string, memory: StoredMemory): Promise<void>;
+
+  // Delete a category and its memories
+  deleteCategory(scope: MemoryScope, category: string): Promise<void>;
+
+  // Delete every category of a scope, keeping its auxiliary documents
+  clearScope(scope: MemoryScope): Promise<void>;
+
+  // Read an auxiliary document of a scope, such as the trash, undefined when it does not exist
+  readDocument(scope: MemoryScope, name: string): Promise<string | undefined>;
+
+  // Replace an auxiliary document of a scope
+  writeDocument(scope: MemoryScope, name: string, content: string): Promise<void>;
+
+  // Add to the end of an auxiliary document of a scope, creating it if needed. A partial last
+  // line left by an interrupted append is dropped first.
+  appendDocument(scope: MemoryScope, name: string, content: string): Promise<void>;
+
+  // Delete an auxiliary document of a scope, if it exists
+  deleteDocument(scope: MemoryScope, name: string): Promise<void>;
+
+  // Run a mutation with exclusive access to a scope, shared with other processes using the
+  // same storage. Calls must not be nested for the same scope.
+  withLock<T>(scope: MemoryScope, fn: () => Promise<T>): Promise<T>;
+
+  // Optional, keep reads fast and fresh by watching the storage, calling `listener` for every
+  // category changed outside this backend. Resolves with a function that stops watching.
+  watch?(listener: StorageChangeListener): Promise<() => void>;
+}
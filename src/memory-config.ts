@@ -1,15 +1,475 @@
-import { Command } from 'commander';
+import { Command, InvalidArgumentError } from 'commander';
 import os from 'os';
 import path from 'path';
 import fs from 'fs';
+import { z } from 'zod';
+import {
+  EmbeddingProvider,
+  HashedNgramEmbeddingProvider,
+  loadEmbeddingProvider,
+} from './lib/embeddings.js';
+import { TRANSPORTS, TransportType } from './http-server.js';
+import { FileBackend } from './lib/file-backend.js';
+import { InMemoryBackend } from './lib/in-memory-backend.js';
+import { LOG_LEVELS, LogLevel } from './lib/logger.js';
+import { DUPLICATE_POLICIES, DuplicatePolicy } from './lib/memory-duplicates.js';
+import { MemoryQuotas } from './lib/memory-quotas.js';
+import { MemoryStorageOptions, ScopePrecedence } from './lib/memory-storage.js';
+import { StorageBackend } from './lib/storage-backend.js';
 
 // Memory configuration type definition
 export interface MemoryConfig {
   globalStorageLocation: string;
   localStorageLocation: string;
   enablePersistence: boolean;
+  // Memories injected into the server instructions at startup, all when undefined, none when 0
+  maxStartupMemories?: number;
+  // Days deleted memories are kept in the trash, 30 when undefined
+  trashRetentionDays?: number;
+  // Days changes stay in the history and snapshots are kept, 90 when undefined
+  historyRetentionDays?: number;
+  // Ask for a confirmation token before removing a whole scope or several memories at once
+  requireConfirmation?: boolean;
+  // Keep memory vectors and offer the similar_memories tool
+  semanticSearch?: boolean;
+  // Module exporting the embedding provider to use instead of the built-in one
+  embeddingProvider?: string;
+  // Scope whose categories shadow those of the same name in the other scopes, none when undefined
+  scopePrecedence?: ScopePrecedence;
+  // Storage directories of the named scopes besides global and local, by name
+  namedScopes?: Record<string, string>;
+  // Transport the server is reached over, stdio when undefined
+  transport?: TransportType;
+  // Address and port the HTTP and SSE transports listen on
+  host?: string;
+  port?: number;
+  // Bearer token HTTP and SSE clients must send, no authentication when undefined
+  authToken?: string;
+  // Host names browsers and proxies may reach the HTTP and SSE transports by, besides the loopback
+  // ones and the listening address
+  allowedHosts?: string[];
+  // File and level of the server log, mcp-shell.log in the working directory at info when undefined
+  logFile?: string;
+  logLevel?: LogLevel;
+  // Limits on memory size, tags, categories and scope size, none when undefined
+  quotas?: MemoryQuotas;
+  // What remember_memory and the add subcommand do with duplicates of existing memories, allow
+  // when undefined
+  onDuplicate?: DuplicatePolicy;
+  // Similarity from 0 to 1 from which memories are near duplicates, 0.9 when undefined
+  duplicateThreshold?: number;
 }
 
+// Defaults of the HTTP and SSE transports, only reachable from this machine
+export const DEFAULT_HOST = '127.0.0.1';
+export const DEFAULT_PORT = 3000;
+
+// Parse a non-negative integer option value
+export const parseCount = (value: string): number => {
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < 0) {
+    throw new InvalidArgumentError('Must be a non-negative integer.');
+  }
+  return count;
+};
+
+// Parse a positive integer option value
+const parsePositiveCount = (value: string): number => {
+  const count = parseCount(value);
+  if (count === 0) {
+    throw new InvalidArgumentError('Must be a positive integer.');
+  }
+  return count;
+};
+
+// Collect the values of an option given several times
+const collectValues = (value: string, previous: string[] = []): string[] => [...previous, value];
+
+// Parse a transport option value
+const parseTransport = (value: string): TransportType => {
+  if (!(TRANSPORTS as readonly string[]).includes(value)) {
+    throw new InvalidArgumentError(`Must be one of ${TRANSPORTS.join(', ')}.`);
+  }
+  return value as TransportType;
+};
+
+// Parse a port option value, 0 picks a free port
+const parsePort = (value: string): number => {
+  const port = parseCount(value);
+  if (port > 65535) {
+    throw new InvalidArgumentError('Must be a port number from 0 to 65535.');
+  }
+  return port;
+};
+
+// Parse a log level option value
+const parseLogLevel = (value: string): LogLevel => {
+  if (!(LOG_LEVELS as readonly string[]).includes(value)) {
+    throw new InvalidArgumentError(`Must be one of ${LOG_LEVELS.join(', ')}.`);
+  }
+  return value as LogLevel;
+};
+
+// Parse a duplicate policy option value
+export const parseDuplicatePolicy = (value: string): DuplicatePolicy => {
+  if (!(DUPLICATE_POLICIES as readonly string[]).includes(value)) {
+    throw new InvalidArgumentError(`Must be one of ${DUPLICATE_POLICIES.join(', ')}.`);
+  }
+  return value as DuplicatePolicy;
+};
+
+// Parse a similarity option value from 0 to 1
+const parseSimilarity = (value: string): number => {
+  const similarity = Number(value);
+  if (value.trim() === '' || !(similarity >= 0 && similarity <= 1)) {
+    throw new InvalidArgumentError('Must be a number from 0 to 1.');
+  }
+  return similarity;
+};
+
+// Storage location flags shared by the server and the CLI subcommands
+export interface StorageLocationOptions {
+  globalStorage?: string;
+  localStorage?: string;
+  namedScope?: Record<string, string>;
+}
+
+// Directory name of a local store
+const LOCAL_STORAGE_DIR_NAME = '.mcp-memory';
+
+// Names that cannot be given to a named scope, as tools and flags already use them
+const RESERVED_SCOPE_NAMES = ['global', 'local', 'all', 'both', 'none'];
+
+// Scope names, also accepted as scope precedence
+const SCOPE_NAME_PATTERN = /^[a-z][a-z0-9_-]*$/;
+
+// Name of the config file, read from the global config directory and the project directory
+export const CONFIG_FILE_NAME = 'mcp-memory.config.json';
+
+// Directory of the global config file and default global storage location
+const globalConfigDir = (): string => path.join(os.homedir(), '.config', 'mcp-memory');
+
+// Find the local store for a working directory: the nearest `.mcp-memory` directory above it,
+// or one at the root of the enclosing repository, so starting in a subdirectory does not create
+// a store there. Falls back to the working directory outside a repository.
+export const discoverLocalStorage = (startDir: string = process.cwd()): string => {
+  let dir = path.resolve(startDir);
+  for (;;) {
+    const candidate = path.join(dir, LOCAL_STORAGE_DIR_NAME);
+    if (fs.existsSync(candidate) || fs.existsSync(path.join(dir, '.git'))) {
+      return candidate;
+    }
+
+    const parent = path.dirname(dir);
+    if (parent === dir) {
+      return path.join(path.resolve(startDir), LOCAL_STORAGE_DIR_NAME);
+    }
+    dir = parent;
+  }
+};
+
+// Resolve the storage locations from the command line flags, layered over the settings
+export const resolveStorageLocations = (
+  options: StorageLocationOptions,
+  settings: ConfigSettings = {}
+): Pick<MemoryConfig, 'globalStorageLocation' | 'localStorageLocation' | 'namedScopes'> => ({
+  // Default setting for global storage
+  globalStorageLocation: options.globalStorage || settings.globalStorage || globalConfigDir(),
+  // Default setting for local storage
+  localStorageLocation: options.localStorage || settings.localStorage || discoverLocalStorage(),
+  namedScopes: { ...settings.namedScopes, ...options.namedScope },
+});
+
+// Parse a `name=path` named scope option value, collecting repeated options
+export const parseNamedScope = (
+  value: string,
+  previous: Record<string, string> = {}
+): Record<string, string> => {
+  const separator = value.indexOf('=');
+  const name = separator === -1 ? '' : value.slice(0, separator);
+  const location = value.slice(separator + 1);
+
+  if (!SCOPE_NAME_PATTERN.test(name) || !location) {
+    throw new InvalidArgumentError(
+      'Must be name=path, with a lowercase name of letters, digits, - and _.'
+    );
+  }
+  if (RESERVED_SCOPE_NAMES.includes(name)) {
+    throw new InvalidArgumentError(`The name ${name} is reserved.`);
+  }
+  return { ...previous, [name]: path.resolve(location) };
+};
+
+// Parse a scope precedence option value, MemoryStorage rejects names of unknown scopes
+const parseScopePrecedence = (value: string): ScopePrecedence => {
+  if (!SCOPE_NAME_PATTERN.test(value)) {
+    throw new InvalidArgumentError("Must be 'local', 'global', a named scope or 'none'.");
+  }
+  return value;
+};
+
+// Settings of config files and environment variables, flags of the same name override them
+const configSettingsSchema = z
+  .object({
+    globalStorage: z.string().min(1),
+    localStorage: z.string().min(1),
+    namedScopes: z.record(
+      z
+        .string()
+        .regex(SCOPE_NAME_PATTERN, 'Must be a lowercase name of letters, digits, - and _')
+        .refine(name => !RESERVED_SCOPE_NAMES.includes(name), 'This scope name is reserved'),
+      z.string().min(1)
+    ),
+    persistence: z.boolean(),
+    maxStartupMemories: z.number().int().nonnegative(),
+    trashRetentionDays: z.number().int().nonnegative(),
+    historyRetentionDays: z.number().int().nonnegative(),
+    maxDataBytes: z.number().int().positive(),
+    maxTagsPerMemory: z.number().int().nonnegative(),
+    maxCategoriesPerScope: z.number().int().positive(),
+    maxScopeBytes: z.number().int().positive(),
+    requireConfirmation: z.boolean(),
+    semanticSearch: z.boolean(),
+    embeddingProvider: z.string().min(1),
+    scopePrecedence: z
+      .string()
+      .regex(SCOPE_NAME_PATTERN, "Must be 'local', 'global', a named scope or 'none'"),
+    transport: z.enum(TRANSPORTS),
+    host: z.string().min(1),
+    port: z.number().int().min(0).max(65535),
+    authToken: z.string().min(1),
+    allowedHosts: z.array(z.string().min(1)),
+    onDuplicate: z.enum(DUPLICATE_POLICIES),
+    duplicateThreshold: z.number().min(0).max(1),
+    logging: z
+      .object({
+        file: z.string().min(1),
+        level: z.enum(LOG_LEVELS),
+      })
+      .partial()
+      .strict(),
+  })
+  .partial()
+  .strict();
+
+export type ConfigSettings = z.infer<typeof configSettingsSchema>;
+
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConfigError';
+  }
+}
+
+// Validate settings, naming the offending key, or the environment variable setting it, on failure
+const parseSettings = (
+  value: unknown,
+  source: string,
+  keyName: (key: string) => string = key => key
+): ConfigSettings => {
+  const result = configSettingsSchema.safeParse(value);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const key = issue.path.length > 0 ? `${keyName(issue.path.join('.'))}: ` : '';
+    throw new ConfigError(`Invalid ${source}: ${key}${issue.message}`);
+  }
+  return result.data;
+};
+
+// Resolve a configured path against a base directory, expanding a leading ~
+const resolveConfigPath = (baseDir: string, value: string): string =>
+  value === '~' || value.startsWith('~/')
+    ? path.join(os.homedir(), value.slice(1))
+    : path.resolve(baseDir, value);
+
+// Resolve the paths of settings against a base directory
+const resolveSettingsPaths = (settings: ConfigSettings, baseDir: string): ConfigSettings => {
+  const resolve = (value: string | undefined) =>
+    value === undefined ? undefined : resolveConfigPath(baseDir, value);
+  const resolved: ConfigSettings = { ...settings };
+
+  for (const key of ['globalStorage', 'localStorage', 'embeddingProvider'] as const) {
+    if (settings[key] !== undefined) resolved[key] = resolve(settings[key]);
+  }
+  if (settings.namedScopes) {
+    resolved.namedScopes = Object.fromEntries(
+      Object.entries(settings.namedScopes).map(([name, location]) => [
+        name,
+        resolveConfigPath(baseDir, location),
+      ])
+    );
+  }
+  if (settings.logging?.file !== undefined) {
+    resolved.logging = { ...settings.logging, file: resolve(settings.logging.file) };
+  }
+  return resolved;
+};
+
+// Read a config file, no settings when it does not exist. Relative paths in it are relative to
+// the directory of the file.
+export const readConfigFile = (file: string): ConfigSettings => {
+  if (!fs.existsSync(file)) {
+    return {};
+  }
+
+  let value: unknown;
+  try {
+    value = JSON.parse(fs.readFileSync(file, 'utf-8'));
+  } catch (error) {
+    throw new ConfigError(
+      `Invalid config file ${file}: ${error instanceof Error ? error.message : error}`
+    );
+  }
+  return resolveSettingsPaths(parseSettings(value, `config file ${file}`), path.dirname(file));
+};
+
+// Settings that load code, open the network, choose where files are written or turn persistence
+// off. A project config file comes with whatever repository is opened, so only the user can set
+// them: in the global config file, an environment variable or a flag.
+const GLOBAL_ONLY_SETTINGS = [
+  'embeddingProvider',
+  'transport',
+  'host',
+  'port',
+  'authToken',
+  'allowedHosts',
+  'globalStorage',
+  'localStorage',
+  'namedScopes',
+  'persistence',
+  'logging.file',
+];
+
+// Whether a setting, such as 'logging.file', is set
+const isSettingSet = (settings: ConfigSettings, key: string): boolean => {
+  const [first, second] = key.split('.');
+  const value = (settings as Record<string, unknown>)[first];
+  return second === undefined
+    ? value !== undefined
+    : (value as Record<string, unknown> | undefined)?.[second] !== undefined;
+};
+
+// Read the config file of a project, rejecting the settings only the user can set
+export const readProjectConfigFile = (file: string): ConfigSettings => {
+  const settings = readConfigFile(file);
+  const key = GLOBAL_ONLY_SETTINGS.find(key => isSettingSet(settings, key));
+  if (key !== undefined) {
+    throw new ConfigError(
+      `Invalid config file ${file}: ${key}: Can only be set in the global config file, an environment variable or a flag`
+    );
+  }
+  return settings;
+};
+
+// Environment variables and the settings they set, parsed by their type
+const ENV_SETTINGS: Record<
+  string,
+  { key: string; type: 'string' | 'number' | 'boolean' | 'list' | 'scopes' }
+> = {
+  MCP_MEMORY_GLOBAL_STORAGE: { key: 'globalStorage', type: 'string' },
+  MCP_MEMORY_LOCAL_STORAGE: { key: 'localStorage', type: 'string' },
+  MCP_MEMORY_NAMED_SCOPES: { key: 'namedScopes', type: 'scopes' },
+  MCP_MEMORY_PERSISTENCE: { key: 'persistence', type: 'boolean' },
+  MCP_MEMORY_MAX_STARTUP_MEMORIES: { key: 'maxStartupMemories', type: 'number' },
+  MCP_MEMORY_TRASH_RETENTION_DAYS: { key: 'trashRetentionDays', type: 'number' },
+  MCP_MEMORY_HISTORY_RETENTION_DAYS: { key: 'historyRetentionDays', type: 'number' },
+  MCP_MEMORY_MAX_DATA_BYTES: { key: 'maxDataBytes', type: 'number' },
+  MCP_MEMORY_MAX_TAGS_PER_MEMORY: { key: 'maxTagsPerMemory', type: 'number' },
+  MCP_MEMORY_MAX_CATEGORIES_PER_SCOPE: { key: 'maxCategoriesPerScope', type: 'number' },
+  MCP_MEMORY_MAX_SCOPE_BYTES: { key: 'maxScopeBytes', type: 'number' },
+  MCP_MEMORY_REQUIRE_CONFIRMATION: { key: 'requireConfirmation', type: 'boolean' },
+  MCP_MEMORY_SEMANTIC_SEARCH: { key: 'semanticSearch', type: 'boolean' },
+  MCP_MEMORY_EMBEDDING_PROVIDER: { key: 'embeddingProvider', type: 'string' },
+  MCP_MEMORY_SCOPE_PRECEDENCE: { key: 'scopePrecedence', type: 'string' },
+  MCP_MEMORY_TRANSPORT: { key: 'transport', type: 'string' },
+  MCP_MEMORY_HOST: { key: 'host', type: 'string' },
+  MCP_MEMORY_PORT: { key: 'port', type: 'number' },
+  MCP_MEMORY_AUTH_TOKEN: { key: 'authToken', type: 'string' },
+  MCP_MEMORY_ALLOWED_HOSTS: { key: 'allowedHosts', type: 'list' },
+  MCP_MEMORY_ON_DUPLICATE: { key: 'onDuplicate', type: 'string' },
+  MCP_MEMORY_DUPLICATE_THRESHOLD: { key: 'duplicateThreshold', type: 'number' },
+  MCP_MEMORY_LOG_FILE: { key: 'logging.file', type: 'string' },
+  MCP_MEMORY_LOG_LEVEL: { key: 'logging.level', type: 'string' },
+};
+
+// Convert an environment variable to its setting's type, values that do not convert are kept as
+// strings for validation to reject
+const parseEnvValue = (
+  value: string,
+  type: 'string' | 'number' | 'boolean' | 'list' | 'scopes'
+): unknown => {
+  switch (type) {
+    case 'number':
+      return value.trim() === '' ? value : Number(value);
+    case 'boolean':
+      return ['true', '1'].includes(value) ? true : ['false', '0'].includes(value) ? false : value;
+    case 'list':
+      // Comma separated values
+      return value.split(',').map(item => item.trim());
+    case 'scopes': {
+      // Comma separated name=path pairs
+      const pairs = value.split(',').map(pair => {
+        const separator = pair.indexOf('=');
+        return separator === -1
+          ? []
+          : [pair.slice(0, separator).trim(), pair.slice(separator + 1).trim()];
+      });
+      return pairs.every(([name, location]) => name && location)
+        ? Object.fromEntries(pairs)
+        : value;
+    }
+    default:
+      return value;
+  }
+};
+
+// Read the MCP_MEMORY_* environment variables. Relative paths in them are relative to the
+// working directory.
+export const readEnvSettings = (env: NodeJS.ProcessEnv = process.env): ConfigSettings => {
+  const value: Record<string, unknown> = {};
+  for (const [name, { key, type }] of Object.entries(ENV_SETTINGS)) {
+    const raw = env[name];
+    if (raw === undefined) continue;
+
+    const [first, second] = key.split('.');
+    const parsed = parseEnvValue(raw, type);
+    if (second === undefined) {
+      value[first] = parsed;
+    } else {
+      value[first] = { ...(value[first] as object), [second]: parsed };
+    }
+  }
+
+  const envName = (key: string) =>
+    Object.entries(ENV_SETTINGS).find(
+      ([, setting]) => key === setting.key || key.startsWith(`${setting.key}.`)
+    )?.[0] ?? key;
+  return resolveSettingsPaths(parseSettings(value, 'environment', envName), process.cwd());
+};
+
+// Layer settings over each other, later layers win
+const mergeSettings = (...layers: ConfigSettings[]): ConfigSettings =>
+  layers.reduce(
+    (merged, layer) => ({
+      ...merged,
+      ...layer,
+      namedScopes: { ...merged.namedScopes, ...layer.namedScopes },
+      logging: { ...merged.logging, ...layer.logging },
+    }),
+    {}
+  );
+
+// Load the settings flags are layered over: the environment variables over the project config
+// file over the global one. The project directory is the one the local store is discovered in.
+export const loadConfigSettings = (startDir: string = process.cwd()): ConfigSettings =>
+  mergeSettings(
+    readConfigFile(path.join(globalConfigDir(), CONFIG_FILE_NAME)),
+    readProjectConfigFile(
+      path.join(path.dirname(discoverLocalStorage(startDir)), CONFIG_FILE_NAME)
+    ),
+    readEnvSettings()
+  );
+
 // Get memory configuration
 export const getMemoryConfig = (): MemoryConfig => {
   // Get configuration from command line arguments
@@ -19,24 +479,169 @@ export const getMemoryConfig = (): MemoryConfig => {
     .description('MCP Memory Server - A server for memory operations')
     .version('0.1.0')
     .option('-g, --global-storage <path>', 'Specify the path to store global memories')
-    .option('-l, --local-storage <path>', 'Specify the path to store local memories')
-    .option('--no-persistence', 'Disable persistence (in-memory only)');
+    .option(
+      '-l, --local-storage <path>',
+      'Specify the path to store local memories, the nearest .mcp-memory or repository root by default'
+    )
+    .option(
+      '--named-scope <name=path>',
+      'Add a named scope, such as team=/shared/team-memory, repeat for several',
+      parseNamedScope
+    )
+    .option('--persistence', 'Keep memories on disk, the default unless configured otherwise')
+    .option('--no-persistence', 'Disable persistence (in-memory only)')
+    .option(
+      '--max-startup-memories <count>',
+      'Maximum number of memories to include in the server instructions at startup, 0 to disable',
+      parseCount
+    )
+    .option(
+      '--require-confirmation',
+      'Require a confirmation token before removing all memories or several memories at once'
+    )
+    .option(
+      '--trash-retention-days <days>',
+      'Number of days deleted memories are kept in the trash before they are dropped',
+      parseCount
+    )
+    .option(
+      '--history-retention-days <days>',
+      'Number of days changes are kept in the history and snapshots are kept before they are dropped',
+      parseCount
+    )
+    .option(
+      '--max-data-bytes <bytes>',
+      'Largest data of one memory, in UTF-8 bytes',
+      parsePositiveCount
+    )
+    .option('--max-tags-per-memory <count>', 'Most tags one memory can have', parseCount)
+    .option(
+      '--max-categories-per-scope <count>',
+      'Most categories each scope can have',
+      parsePositiveCount
+    )
+    .option(
+      '--max-scope-bytes <bytes>',
+      'Largest total data and tags of the memories of each scope, in UTF-8 bytes',
+      parsePositiveCount
+    )
+    .option(
+      '--on-duplicate <policy>',
+      "What remember_memory does with a duplicate of a memory of the same category and scope: 'reject' it, 'merge' its tags into an exact duplicate or 'allow' it (default: allow)",
+      parseDuplicatePolicy
+    )
+    .option(
+      '--duplicate-threshold <similarity>',
+      'Text similarity from 0 to 1 from which memories count as near duplicates (default: 0.9)',
+      parseSimilarity
+    )
+    .option(
+      '--semantic-search',
+      'Enable the similar_memories tool, using built-in offline embeddings by default'
+    )
+    .option(
+      '--embedding-provider <module>',
+      'Module whose default export is the embedding provider to use, implies --semantic-search'
+    )
+    .option(
+      '--scope-precedence <scope>',
+      "Scope whose categories shadow the same categories of the other scopes when reading all memories: 'local', 'global', a named scope or 'none'",
+      parseScopePrecedence
+    )
+    .option(
+      '--transport <transport>',
+      "Transport to serve the tools over: 'stdio', 'http' (Streamable HTTP) or 'sse'",
+      parseTransport
+    )
+    .option(
+      '--host <host>',
+      `Address the http and sse transports listen on (default: ${DEFAULT_HOST})`
+    )
+    .option(
+      '--port <port>',
+      `Port the http and sse transports listen on, 0 for a free port (default: ${DEFAULT_PORT})`,
+      parsePort
+    )
+    .option(
+      '--auth-token <token>',
+      'Bearer token clients of the http and sse transports must send in the Authorization header'
+    )
+    .option(
+      '--allowed-host <host>',
+      'Host name browsers and proxies may reach the http and sse transports by, besides localhost and the listening address, repeat for several',
+      collectValues
+    )
+    .option('--log-file <path>', 'File to write the server log to (default: ./mcp-shell.log)')
+    .option(
+      '--log-level <level>',
+      `Least severe level logged: ${LOG_LEVELS.join(', ')}`,
+      parseLogLevel
+    );
 
   program.parse(process.argv);
-  const options = program.opts();
+  return resolveMemoryConfig(program.opts(), loadConfigSettings());
+};
 
-  // Default setting for local storage
-  const localStorageLocation = options.localStorage || path.join(process.cwd(), '.mcp-memory');
+// Flags of the server, the CLI subcommands take the storage location ones and some others
+export interface MemoryConfigOptions extends StorageLocationOptions {
+  persistence?: boolean;
+  maxStartupMemories?: number;
+  trashRetentionDays?: number;
+  historyRetentionDays?: number;
+  requireConfirmation?: boolean;
+  semanticSearch?: boolean;
+  embeddingProvider?: string;
+  scopePrecedence?: ScopePrecedence;
+  transport?: TransportType;
+  host?: string;
+  port?: number;
+  authToken?: string;
+  allowedHost?: string[];
+  logFile?: string;
+  logLevel?: LogLevel;
+  maxDataBytes?: number;
+  maxTagsPerMemory?: number;
+  maxCategoriesPerScope?: number;
+  maxScopeBytes?: number;
+  onDuplicate?: DuplicatePolicy;
+  duplicateThreshold?: number;
+}
 
-  // Default setting for global storage
-  const globalStorageLocation =
-    options.globalStorage || path.join(os.homedir(), '.config', 'mcp-memory');
+// Layer flags over the settings of config files and environment variables
+export const resolveMemoryConfig = (
+  options: MemoryConfigOptions,
+  settings: ConfigSettings
+): MemoryConfig => {
+  const embeddingProvider = options.embeddingProvider ?? settings.embeddingProvider;
 
-  // Return configuration
+  // Return configuration, flags win over the settings
   return {
-    globalStorageLocation,
-    localStorageLocation,
-    enablePersistence: options.persistence !== false,
+    ...resolveStorageLocations(options, settings),
+    enablePersistence: options.persistence ?? settings.persistence ?? true,
+    maxStartupMemories: options.maxStartupMemories ?? settings.maxStartupMemories,
+    trashRetentionDays: options.trashRetentionDays ?? settings.trashRetentionDays,
+    historyRetentionDays: options.historyRetentionDays ?? settings.historyRetentionDays,
+    requireConfirmation: options.requireConfirmation ?? settings.requireConfirmation ?? false,
+    semanticSearch:
+      (options.semanticSearch ?? settings.semanticSearch ?? false) ||
+      embeddingProvider !== undefined,
+    embeddingProvider,
+    scopePrecedence: options.scopePrecedence ?? settings.scopePrecedence,
+    transport: options.transport ?? settings.transport ?? 'stdio',
+    host: options.host ?? settings.host ?? DEFAULT_HOST,
+    port: options.port ?? settings.port ?? DEFAULT_PORT,
+    authToken: options.authToken ?? settings.authToken,
+    allowedHosts: options.allowedHost ?? settings.allowedHosts,
+    logFile: options.logFile ?? settings.logging?.file,
+    logLevel: options.logLevel ?? settings.logging?.level,
+    quotas: {
+      maxDataBytes: options.maxDataBytes ?? settings.maxDataBytes,
+      maxTagsPerMemory: options.maxTagsPerMemory ?? settings.maxTagsPerMemory,
+      maxCategoriesPerScope: options.maxCategoriesPerScope ?? settings.maxCategoriesPerScope,
+      maxScopeBytes: options.maxScopeBytes ?? settings.maxScopeBytes,
+    },
+    onDuplicate: options.onDuplicate ?? settings.onDuplicate ?? 'allow',
+    duplicateThreshold: options.duplicateThreshold ?? settings.duplicateThreshold,
   };
 };
 
@@ -58,5 +663,40 @@ export const initializeStorage = (config: MemoryConfig): void => {
     if (!fs.existsSync(config.localStorageLocation)) {
       fs.mkdirSync(config.localStorageLocation, { recursive: true });
     }
+    for (const location of Object.values(config.namedScopes ?? {})) {
+      fs.mkdirSync(location, { recursive: true });
+    }
+  }
+};
+
+// Create the storage backend, memories stay in process memory when persistence is disabled
+export const createStorageBackend = (config: MemoryConfig): StorageBackend => {
+  if (!config.enablePersistence) {
+    return new InMemoryBackend();
+  }
+  return new FileBackend(config.globalStorageLocation, config.localStorageLocation, {
+    scopes: config.namedScopes,
+  });
+};
+
+// Options of the MemoryStorage the server and the CLI open, without the embedding provider the
+// server adds for semantic search
+export const createStorageOptions = (config: MemoryConfig): MemoryStorageOptions => ({
+  backend: createStorageBackend(config),
+  trashRetentionDays: config.trashRetentionDays,
+  historyRetentionDays: config.historyRetentionDays,
+  scopePrecedence: config.scopePrecedence,
+  scopes: config.namedScopes,
+  quotas: config.quotas,
+  duplicateThreshold: config.duplicateThreshold,
+});
+
+// Create the embedding provider for semantic search, undefined when it is disabled
+export const createEmbeddingProvider = async (
+  config: MemoryConfig
+): Promise<EmbeddingProvider | undefined> => {
+  if (config.embeddingProvider !== undefined) {
+    return loadEmbeddingProvider(config.embeddingProvider);
   }
+  return config.semanticSearch ? new HashedNgramEmbeddingProvider() : undefined;
 };
@@ -0,0 +1,167 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { logger } from './lib/logger.js';
+import { formatSearchResult, renderMemoryContext } from './lib/memory-context.js';
+import { MemoryStorage, SearchResult } from './lib/memory-storage.js';
+
+// Related memories shown when saving or recalling by topic
+const RELATED_MEMORY_LIMIT = 10;
+
+// A prompt result with a single user message
+const userMessage = (text: string) => ({
+  messages: [
+    {
+      role: 'user' as const,
+      content: {
+        type: 'text' as const,
+        text,
+      },
+    },
+  ],
+});
+
+// Format search results as bullet lines with their scope and category
+const formatSearchResults = (results: SearchResult[]): string =>
+  results.length > 0 ? results.map(formatSearchResult).join('\n') : 'No related memories found.';
+
+// Register prompts for common memory workflows, each embedding the relevant saved memories
+export const registerMemoryPrompts = (server: McpServer, memoryStorage: MemoryStorage) => {
+  // Scope arguments accept the named scopes the server was started with
+  const scopes = memoryStorage.scopes as [string, ...string[]];
+  const selections = [...scopes, 'all', 'both'] as [string, ...string[]];
+
+  server.prompt(
+    'memory_context',
+    'Loads the currently saved memories into the conversation',
+    {
+      scope: z
+        .enum(selections)
+        .optional()
+        .describe("Which memories to load: 'global', 'local' or 'all' (default)"),
+    },
+    async ({ scope }) => {
+      logger.info(`Rendering memory context prompt, scope: ${scope ?? 'all'}`);
+
+      const context = await renderMemoryContext(memoryStorage, { scope });
+      return userMessage(
+        `Here are my saved memories. Keep them in mind, but only bring them up when relevant.\n\n${context}`
+      );
+    }
+  );
+
+  server.prompt(
+    'save_preference',
+    'Saves a preference or fact as a memory, checking for related memories first',
+    {
+      preference: z.string().describe('The preference or fact to remember'),
+      category: z.string().optional().describe('Category to store it in, suggested when omitted'),
+      scope: z
+        .enum(scopes)
+        .optional()
+        .describe(
+          "Where to store it: 'global' for user-wide data, 'local' for this project, or a named scope"
+        ),
+    },
+    async ({ preference, category, scope }) => {
+      logger.info('Rendering save_preference prompt');
+
+      // Global first, then the named scopes and local
+      const categories: string[] = [];
+      for (const memoryScope of [...scopes].reverse()) {
+        const names = await memoryStorage.listCategories(memoryScope);
+        categories.push(`Existing ${memoryScope} categories: ${names.join(', ') || 'none'}`);
+      }
+      const related = await memoryStorage.search({
+        query: preference,
+        limit: RELATED_MEMORY_LIMIT,
+      });
+
+      const steps = [
+        category
+          ? `1. Store it in the "${category}" category.`
+          : '1. Suggest a category, preferring an existing one: "personal" for user data or "development" for project preferences.',
+        '2. Ask me for any tags I want to apply for easier lookup.',
+        scope
+          ? `3. Store it in ${scope} memory.`
+          : '3. Confirm where to store it: local memory (.mcp-memory) for project-specific details, or global memory (~/.config/mcp-memory) for user-wide data.',
+        '4. If a related memory below already covers this, update it with update_memory instead of adding a duplicate. Otherwise store it with remember_memory.',
+      ];
+
+      return userMessage(
+        [
+          `I'd like to remember this: ${preference}`,
+          '',
+          'Please:',
+          ...steps,
+          '',
+          ...categories,
+          '',
+          'Related memories:',
+          formatSearchResults(related),
+        ].join('\n')
+      );
+    }
+  );
+
+  server.prompt(
+    'recall_project_context',
+    'Loads the memories about the current project, optionally focused on a topic',
+    {
+      topic: z.string().optional().describe('Topic to focus on, all local memories when omitted'),
+    },
+    async ({ topic }) => {
+      logger.info(`Rendering recall_project_context prompt, topic: ${topic ?? 'none'}`);
+
+      if (topic) {
+        const related = await memoryStorage.search({
+          query: topic,
+          limit: RELATED_MEMORY_LIMIT,
+        });
+        return userMessage(
+          [
+            `Here is what I've saved about "${topic}". Use it as context for the work on this project.`,
+            '',
+            formatSearchResults(related),
+          ].join('\n')
+        );
+      }
+
+      const context = await renderMemoryContext(memoryStorage, { scope: 'local' });
+      return userMessage(
+        [
+          "Here is what I've saved about this project. Use it as context for the work on this project.",
+          '',
+          context,
+        ].join('\n')
+      );
+    }
+  );
+
+  server.prompt(
+    'review_memories',
+    'Reviews saved memories for outdated, duplicated or conflicting entries',
+    {
+      scope: z
+        .enum(selections)
+        .optional()
+        .describe("Which memories to review: 'global', 'local' or 'all' (default)"),
+      category: z.string().optional().describe('Only review this category'),
+    },
+    async ({ scope, category }) => {
+      logger.info(`Rendering review_memories prompt, scope: ${scope ?? 'all'}`);
+
+      const context = await renderMemoryContext(memoryStorage, { scope, category });
+      return userMessage(
+        [
+          'Please review my saved memories below.',
+          '',
+          '1. Point out memories that look outdated, duplicated, conflicting or too broad to be useful.',
+          '2. For each one, propose a fix: merge or edit it with update_memory, or delete it with remove_specific_memory using its ID.',
+          '3. Ask me to confirm before changing anything.',
+          '',
+          context,
+        ].join('\n')
+      );
+    }
+  );
+};
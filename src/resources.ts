@@ -0,0 +1,101 @@
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import {
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import { logger } from './lib/logger.js';
+import { Memory, MemoryChangeEvent, MemoryScope, MemoryStorage } from './lib/memory-storage.js';
+
+// URI of a scope, or of a category within it
+export const memoryResourceUri = (scope: MemoryScope, category?: string): string =>
+  category === undefined
+    ? `memory://${scope}`
+    : `memory://${scope}/${encodeURIComponent(category)}`;
+
+// Resource contents for a list of memories
+const memoryContents = (uri: string, memories: Memory[]) => ({
+  contents: [
+    {
+      uri,
+      mimeType: 'application/json',
+      text: JSON.stringify(memories, null, 2),
+    },
+  ],
+});
+
+// Expose each scope and category as a resource and notify clients when memories change
+export const registerMemoryResources = (server: McpServer, memoryStorage: MemoryStorage) => {
+  // Global first, then the named scopes and local
+  for (const scope of [...memoryStorage.scopes].reverse()) {
+    server.resource(
+      `${scope}-memories`,
+      memoryResourceUri(scope),
+      {
+        description: `All ${scope} memories`,
+        mimeType: 'application/json',
+      },
+      async uri => memoryContents(uri.href, await memoryStorage.retrieveAll(scope))
+    );
+
+    server.resource(
+      `${scope}-memory-category`,
+      new ResourceTemplate(`memory://${scope}/{category}`, {
+        list: async () => ({
+          resources: (await memoryStorage.listCategories(scope)).map(category => ({
+            uri: memoryResourceUri(scope, category),
+            name: `${scope}/${category}`,
+          })),
+        }),
+      }),
+      {
+        description: `Memories in a ${scope} category`,
+        mimeType: 'application/json',
+      },
+      async (uri, { category }) =>
+        memoryContents(
+          uri.href,
+          await memoryStorage.retrieve(decodeURIComponent(String(category)), scope)
+        )
+    );
+  }
+
+  // Track subscriptions so update notifications only go to interested clients
+  const subscriptions = new Set<string>();
+  server.server.registerCapabilities({ resources: { subscribe: true } });
+  server.server.setRequestHandler(SubscribeRequestSchema, async request => {
+    subscriptions.add(request.params.uri);
+    return {};
+  });
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async request => {
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  const onChange = (event: MemoryChangeEvent) => {
+    if (!server.isConnected()) return;
+
+    server.sendResourceListChanged();
+
+    const uris = [memoryResourceUri(event.scope)];
+    if (event.category !== undefined) {
+      uris.push(memoryResourceUri(event.scope, event.category));
+    } else {
+      // A cleared scope affects every category subscribed to within it
+      uris.push(...[...subscriptions].filter(uri => uri.startsWith(`${uris[0]}/`)));
+    }
+
+    for (const uri of uris.filter(uri => subscriptions.has(uri))) {
+      server.server.sendResourceUpdated({ uri }).catch(error => {
+        logger.error(`Error sending resource update for ${uri}:`, error);
+      });
+    }
+  };
+
+  memoryStorage.on('change', onChange);
+  // Stop listening once the client is gone, keeping any close handler set before
+  const onclose = server.server.onclose;
+  server.server.onclose = () => {
+    onclose?.();
+    memoryStorage.off('change', onChange);
+  };
+};
@@ -0,0 +1,1220 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { ServerOptions } from '@modelcontextprotocol/sdk/server/index.js';
+import { z } from 'zod';
+import { normalizeCategory } from './lib/category-policy.js';
+import { ConfirmationStore } from './lib/confirmations.js';
+import { logger } from './lib/logger.js';
+import {
+  DUPLICATE_POLICIES,
+  DuplicateMatch,
+  DuplicateMemoryError,
+  DuplicatePolicy,
+} from './lib/memory-duplicates.js';
+import { Memory, MemoryScope, MemoryStorage, groupMemories } from './lib/memory-storage.js';
+import { countMemories, formatMemory, renderMemoryContext } from './lib/memory-context.js';
+import { EXCHANGE_FORMATS, exportMemories, parseImport } from './lib/memory-exchange.js';
+import { parseTtl } from './lib/memory-expiry.js';
+import { QuotaExceededError, QuotaLimit, QuotaUsage } from './lib/memory-quotas.js';
+import { registerMemoryPrompts } from './prompts.js';
+import { registerMemoryResources } from './resources.js';
+
+export interface MemoryServerOptions extends ServerOptions {
+  // Ask for a confirmation token before removing a whole scope or several memories at once
+  requireConfirmation?: boolean;
+  // What remember_memory does with duplicates of existing memories unless a call says otherwise,
+  // 'allow' by default
+  onDuplicate?: DuplicatePolicy;
+}
+
+// Enum of scope names, which include the named scopes the server was started with
+const scopeEnum = (values: string[]) => z.enum(values as [string, ...string[]]);
+
+// Scopes a read covers, 'both' is still accepted as the earlier name of 'all'
+const scopeSelection = (scopes: MemoryScope[], action: string) =>
+  scopeEnum([...scopes, 'all', 'both'])
+    .optional()
+    .default('all')
+    .describe(`Whether to ${action} global memory, local memory, a named scope or all memories`);
+
+// Scope a tool acts on, the scope parameter when given, otherwise the one is_global picks
+const targetScope = (
+  scope: MemoryScope | undefined,
+  isGlobal: boolean | undefined
+): MemoryScope => {
+  if (scope !== undefined) {
+    return scope;
+  }
+  if (isGlobal === undefined) {
+    throw new Error('Either is_global or scope is required');
+  }
+  return isGlobal ? 'global' : 'local';
+};
+
+// Details of a tool error as JSON, for the errors callers can act on
+const errorDetails = (error: unknown): Record<string, unknown> | undefined => {
+  if (error instanceof QuotaExceededError) {
+    return {
+      error: 'quota_exceeded',
+      limit: error.limit,
+      scope: error.scope,
+      max: error.max,
+      actual: error.actual,
+    };
+  }
+  if (error instanceof DuplicateMemoryError) {
+    return { error: 'duplicate', ...error.duplicate };
+  }
+  return undefined;
+};
+
+// Response of a tool that failed, followed by the exceeded limit or the duplicated memory as JSON
+const errorResult = (error: unknown) => {
+  const details = errorDetails(error);
+  return {
+    content: [
+      {
+        type: 'text' as const,
+        text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+      },
+      ...(details !== undefined
+        ? [{ type: 'text' as const, text: JSON.stringify(details, null, 2) }]
+        : []),
+    ],
+    isError: true,
+  };
+};
+
+// "memory <id> (similarity 0.95): <data>"
+const describeDuplicate = (duplicate: DuplicateMatch): string =>
+  `memory ${duplicate.id} (similarity ${duplicate.similarity.toFixed(2)}): ${duplicate.data}`;
+
+// Usage each quota is measured against
+const QUOTA_USAGE: Record<QuotaLimit, keyof QuotaUsage> = {
+  maxDataBytes: 'largestDataBytes',
+  maxTagsPerMemory: 'mostTags',
+  maxCategoriesPerScope: 'categories',
+  maxScopeBytes: 'bytes',
+};
+
+// A summary line followed by the affected memories as bullet lines
+const describeMemories = (summary: string, memories: Memory[]): string =>
+  [summary, ...memories.map(formatMemory)].join('\n');
+
+// Response of a removal run with dry_run, listing the memories it would remove
+const dryRunResult = (memories: Memory[]) => ({
+  content: [
+    {
+      type: 'text' as const,
+      text: JSON.stringify({ dryRun: true, count: memories.length, memories }, null, 2),
+    },
+  ],
+});
+
+export const initializeServer = (memoryStorage: MemoryStorage, options: MemoryServerOptions) => {
+  const { requireConfirmation = false, onDuplicate = 'allow', ...serverOptions } = options;
+
+  // Scope parameter of the tools acting on one scope, naming it instead of using is_global
+  const scopeParameter = scopeEnum(memoryStorage.scopes)
+    .optional()
+    .describe('Scope to use instead of is_global, such as a named scope');
+
+  // MCP server configuration
+  const server = new McpServer(
+    {
+      name: '@mkusaka/mcp-server-memory',
+      version: '0.0.3',
+    },
+    serverOptions
+  );
+
+  // When confirmation is required and not given, the response to return instead of removing.
+  // Clients supporting elicitation ask the user directly, others get a token to call again with.
+  const confirmations = new ConfirmationStore();
+  const checkConfirmation = async (
+    action: string,
+    memories: Memory[],
+    needsConfirmation: boolean,
+    confirmToken: string | undefined
+  ) => {
+    if (!requireConfirmation || !needsConfirmation) {
+      return undefined;
+    }
+
+    const ids = memories.map(memory => memory.id);
+    if (confirmToken !== undefined) {
+      if (confirmations.consume(confirmToken, action, ids)) {
+        return undefined;
+      }
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: 'Error: Invalid or expired confirmation token, or the matching memories changed. Call again without confirm_token to get a new one.',
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    if (server.server.getClientCapabilities()?.elicitation) {
+      const answer = await server.server.elicitInput({
+        message: describeMemories(`Remove ${countMemories(memories.length)}?`, memories),
+        requestedSchema: { type: 'object', properties: {} },
+      });
+      if (answer.action === 'accept') {
+        return undefined;
+      }
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: `Not removed: the user ${answer.action === 'decline' ? 'declined' : 'cancelled'} the removal`,
+          },
+        ],
+      };
+    }
+
+    const token = confirmations.issue(action, ids);
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: describeMemories(
+            `Confirmation required: this would remove ${countMemories(memories.length)}. Show them to the user and, if they agree, call again with the same arguments and confirm_token: ${token}`,
+            memories
+          ),
+        },
+      ],
+    };
+  };
+
+  registerMemoryResources(server, memoryStorage);
+  registerMemoryPrompts(server, memoryStorage);
+
+  // Define memory tools
+  server.tool(
+    'remember_memory',
+    'Stores a memory with optional tags in a specified category',
+    {
+      category: z.string().min(1).describe('The category to store the memory in'),
+      data: z.string().min(1).describe('The data to store in memory'),
+      tags: z
+        .array(z.string().min(1))
+        .optional()
+        .default([])
+        .describe('Optional tags for categorizing the memory'),
+      is_global: z.boolean().optional().describe('Whether to store in global or local memory'),
+      scope: scopeParameter,
+      ttl: z
+        .string()
+        .optional()
+        .describe(
+          'How long the memory is kept, such as 12h or 7d, for temporary facts like work in progress'
+        ),
+      expires_at: z
+        .string()
+        .datetime({ offset: true })
+        .optional()
+        .describe('When the memory expires, as an ISO 8601 date and time, instead of ttl'),
+      on_duplicate: z
+        .enum(DUPLICATE_POLICIES)
+        .optional()
+        .describe(
+          `What to do when the memory duplicates or nearly duplicates one of the same category and scope: 'reject' it, 'merge' its tags into an exact duplicate (a near duplicate is stored) or 'allow' it, ${onDuplicate} by default`
+        ),
+    },
+    async ({ category, data, tags, is_global, scope, ttl, expires_at, on_duplicate }) => {
+      try {
+        const target = targetScope(scope, is_global);
+        logger.info(`Storing memory in category: ${category}, scope: ${target}`);
+
+        const { memory, action, duplicate } = await memoryStorage.rememberChecked(
+          category,
+          data,
+          tags || [],
+          target,
+          {
+            origin: 'remember_memory',
+            ttlMs: ttl !== undefined ? parseTtl(ttl) : undefined,
+            expiresAt: expires_at !== undefined ? new Date(expires_at) : undefined,
+            onDuplicate: on_duplicate ?? onDuplicate,
+          }
+        );
+
+        if (action === 'merged' && duplicate) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Not stored, the memory duplicates ${describeDuplicate(duplicate)}\nMerged into it, its tags are now: ${memory.tags.join(', ') || 'none'}`,
+              },
+            ],
+          };
+        }
+
+        const expiry = memory.expiresAt !== undefined ? `, expiring at ${memory.expiresAt}` : '';
+        const similar = duplicate
+          ? `\nIt ${duplicate.similarity === 1 ? 'duplicates' : 'nearly duplicates'} ${describeDuplicate(duplicate)}`
+          : '';
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Stored memory in category: ${memory.category} with id: ${memory.id}${expiry}${similar}`,
+            },
+          ],
+        };
+      } catch (error) {
+        logger.error('Error storing memory:', error);
+        return errorResult(error);
+      }
+    }
+  );
+
+  server.tool(
+    'retrieve_memories',
+    'Retrieves all memories from a specified category, each tagged with the scope it is stored in',
+    {
+      category: z
+        .string()
+        .min(1)
+        .describe("The category to retrieve memories from, use '*' for all categories"),
+      scope: scopeEnum([...memoryStorage.scopes, 'all', 'both'])
+        .optional()
+        .describe(
+          'Whether to retrieve from global memory, local memory, a named scope or all memories, all by default'
+        ),
+      is_global: z
+        .boolean()
+        .optional()
+        .describe('Whether to retrieve from global or local memory, use scope instead'),
+      group_by: z
+        .enum(['tag', 'category', 'none'])
+        .optional()
+        .default('none')
+        .describe("How to group the returned memories, 'none' returns a flat list"),
+    },
+    async ({ category, scope, is_global, group_by }) => {
+      try {
+        const selection =
+          scope ?? (is_global === undefined ? 'all' : is_global ? 'global' : 'local');
+        logger.info(`Retrieving memories from category: ${category}, scope: ${selection}`);
+
+        const memories = await memoryStorage.retrieveScoped(
+          selection,
+          category === '*' ? undefined : category
+        );
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(groupMemories(memories, group_by), null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        logger.error('Error retrieving memories:', error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.tool(
+    'search_memories',
+    'Searches memories by content, tags and category, returning the best matches first',
+    {
+      query: z
+        .string()
+        .optional()
+        .describe('Free-text query matched against memory content, tags and category'),
+      tags: z
+        .array(z.string())
+        .optional()
+        .default([])
+        .describe('Tags that every returned memory must have'),
+      exclude_tags: z
+        .array(z.string())
+        .optional()
+        .default([])
+        .describe('Tags that returned memories must not have'),
+      categories: z
+        .array(z.string().min(1))
+        .optional()
+        .describe('Categories to search in, all categories when omitted'),
+      scope: scopeSelection(memoryStorage.scopes, 'search'),
+      limit: z
+        .number()
+        .int()
+        .positive()
+        .optional()
+        .default(20)
+        .describe('Maximum number of memories to return'),
+    },
+    async ({ query, tags, exclude_tags, categories, scope, limit }) => {
+      try {
+        logger.info(`Searching memories for: ${query ?? ''}, scope: ${scope}`);
+
+        const results = await memoryStorage.search({
+          query,
+          tags,
+          excludeTags: exclude_tags,
+          categories,
+          scope,
+          limit,
+        });
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(results, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        logger.error('Error searching memories:', error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  // Only offered when an embedding provider is configured
+  if (memoryStorage.semanticSearch) {
+    server.tool(
+      'similar_memories',
+      'Finds the memories closest in meaning to a query, with their similarity scores, best matches first. Use it when search_memories finds nothing because the memory may be worded differently',
+      {
+        query: z.string().min(1).describe('Text to find related memories for'),
+        categories: z
+          .array(z.string().min(1))
+          .optional()
+          .describe('Categories to search in, all categories when omitted'),
+        scope: scopeSelection(memoryStorage.scopes, 'search'),
+        limit: z
+          .number()
+          .int()
+          .positive()
+          .optional()
+          .default(5)
+          .describe('Number of memories to return'),
+      },
+      async ({ query, categories, scope, limit }) => {
+        try {
+          logger.info(`Finding memories similar to: ${query}, scope: ${scope}`);
+
+          const results = await memoryStorage.similar({ query, categories, scope, limit });
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(results, null, 2),
+              },
+            ],
+          };
+        } catch (error) {
+          logger.error('Error finding similar memories:', error);
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+      }
+    );
+  }
+
+  server.tool(
+    'get_memory_context',
+    'Renders the current memories as text, reflecting every change made since the server started',
+    {
+      scope: scopeSelection(memoryStorage.scopes, 'render'),
+      max_memories: z
+        .number()
+        .int()
+        .positive()
+        .optional()
+        .describe('Maximum number of most recently updated memories to include'),
+    },
+    async ({ scope, max_memories }) => {
+      try {
+        logger.info(`Rendering memory context, scope: ${scope}`);
+
+        const context = await renderMemoryContext(memoryStorage, {
+          scope,
+          maxMemories: max_memories,
+        });
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: context,
+            },
+          ],
+        };
+      } catch (error) {
+        logger.error('Error rendering memory context:', error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.tool(
+    'memory_stats',
+    'Reports how many memories, categories and bytes each scope uses, against the configured quotas',
+    {
+      scope: scopeSelection(memoryStorage.scopes, 'report on'),
+    },
+    async ({ scope }) => {
+      try {
+        logger.info(`Reporting memory usage, scope: ${scope}`);
+
+        const quotas = memoryStorage.quotas;
+        const scopes = [];
+        for (const selected of memoryStorage.selectedScopes(scope)) {
+          const usage = await memoryStorage.usage(selected);
+          // Quotas the scope is over, such as after they were lowered
+          const overQuota = (Object.keys(QUOTA_USAGE) as QuotaLimit[]).filter(limit => {
+            const max = quotas[limit];
+            return max !== undefined && usage[QUOTA_USAGE[limit]] > max;
+          });
+          scopes.push({ scope: selected, ...usage, overQuota });
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({ quotas, scopes }, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        logger.error('Error reporting memory usage:', error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.tool(
+    'update_memory',
+    'Updates the data or tags of a memory in place, optionally moving it to another category or scope',
+    {
+      id: z.string().min(1).describe('ID of the memory to update'),
+      is_global: z
+        .boolean()
+        .optional()
+        .describe('Whether the memory is currently in global or local memory'),
+      scope: scopeParameter,
+      data: z.string().min(1).optional().describe('New data for the memory'),
+      tags: z.array(z.string().min(1)).optional().describe('New tags, replacing the existing ones'),
+      category: z.string().min(1).optional().describe('Category to move the memory to'),
+      move_to_global: z
+        .boolean()
+        .optional()
+        .describe('Move the memory to global (true) or local (false) memory'),
+      move_to_scope: scopeEnum(memoryStorage.scopes)
+        .optional()
+        .describe(
+          'Move the memory to this scope, such as a named scope, instead of move_to_global'
+        ),
+    },
+    async ({ id, is_global, scope, data, tags, category, move_to_global, move_to_scope }) => {
+      try {
+        const target = targetScope(scope, is_global);
+        logger.info(`Updating memory: ${id}, scope: ${target}`);
+
+        if (
+          data === undefined &&
+          tags === undefined &&
+          category === undefined &&
+          move_to_global === undefined &&
+          move_to_scope === undefined
+        ) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: 'Error: Nothing to update, provide data, tags, category, move_to_global or move_to_scope',
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        const result = await memoryStorage.update(
+          id,
+          target,
+          { data, tags, category, scope: move_to_scope, isGlobal: move_to_global },
+          { origin: 'update_memory' }
+        );
+        if (!result) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Error: No memory with id: ${id} in ${target} memory`,
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        logger.error('Error updating memory:', error);
+        return errorResult(error);
+      }
+    }
+  );
+
+  server.tool(
+    'remove_memory_category',
+    'Removes all memories within a specified category, moving them to the trash where they can be restored',
+    {
+      category: z.string().min(1).describe("The category to remove, use '*' for all categories"),
+      is_global: z.boolean().optional().describe('Whether to remove from global or local memory'),
+      scope: scopeParameter,
+      dry_run: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe('List the memories that would be removed without removing them'),
+      confirm_token: z
+        .string()
+        .optional()
+        .describe('Token returned by a previous call that asked for confirmation'),
+    },
+    async ({ category, is_global, scope, dry_run, confirm_token }) => {
+      try {
+        const target = targetScope(scope, is_global);
+        logger.info(`Removing memory category: ${category}, scope: ${target}`);
+
+        const isWildcard = category === '*';
+        const memories = isWildcard
+          ? await memoryStorage.retrieveAll(target)
+          : await memoryStorage.retrieve(category, target);
+
+        if (dry_run) {
+          return dryRunResult(memories);
+        }
+
+        const pending = await checkConfirmation(
+          JSON.stringify(['remove_memory_category', category, target]),
+          memories,
+          isWildcard || memories.length > 1,
+          confirm_token
+        );
+        if (pending) {
+          return pending;
+        }
+
+        if (isWildcard) {
+          await memoryStorage.clearAllGlobalOrLocalMemories(target, {
+            origin: 'remove_memory_category',
+          });
+          return {
+            content: [
+              {
+                type: 'text',
+                text: describeMemories(
+                  `Cleared all ${target} memory categories, ${countMemories(memories.length)} moved to the trash`,
+                  memories
+                ),
+              },
+            ],
+          };
+        } else {
+          await memoryStorage.clearMemory(category, target, {
+            origin: 'remove_memory_category',
+          });
+          return {
+            content: [
+              {
+                type: 'text',
+                text: describeMemories(
+                  `Cleared memories in category: ${category}, ${countMemories(memories.length)} moved to the trash`,
+                  memories
+                ),
+              },
+            ],
+          };
+        }
+      } catch (error) {
+        logger.error('Error removing memory category:', error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.tool(
+    'remove_specific_memory',
+    'Removes a specific memory within a specified category, by ID or by content, moving it to the trash where it can be restored',
+    {
+      category: z.string().min(1).describe('The category containing the memory to remove'),
+      id: z.string().min(1).optional().describe('ID of the memory to remove (exact match)'),
+      memory_content: z
+        .string()
+        .min(1)
+        .optional()
+        .describe('Content of the memory to remove (partial match), used when no ID is given'),
+      is_global: z.boolean().optional().describe('Whether to remove from global or local memory'),
+      scope: scopeParameter,
+      dry_run: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe('List the memories that would be removed without removing them'),
+      confirm_token: z
+        .string()
+        .optional()
+        .describe('Token returned by a previous call that asked for confirmation'),
+    },
+    async ({ category, id, memory_content, is_global, scope, dry_run, confirm_token }) => {
+      try {
+        const target = targetScope(scope, is_global);
+        logger.info(`Removing specific memory from category: ${category}, scope: ${target}`);
+
+        if (id) {
+          const memory = await memoryStorage.get(id, target, category);
+          if (!memory) {
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: `Error: No memory with id: ${id} in category: ${category}`,
+                },
+              ],
+              isError: true,
+            };
+          }
+
+          if (dry_run) {
+            return dryRunResult([memory]);
+          }
+
+          await memoryStorage.removeMemory(category, id, target, {
+            origin: 'remove_specific_memory',
+          });
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Removed memory with id: ${id} from category: ${category}`,
+              },
+            ],
+          };
+        }
+
+        if (!memory_content) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: 'Error: Either id or memory_content must be provided',
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        const matches = await memoryStorage.findByContent(category, memory_content, target);
+
+        if (dry_run) {
+          return dryRunResult(matches);
+        }
+
+        const pending = await checkConfirmation(
+          JSON.stringify(['remove_specific_memory', category, memory_content, target]),
+          matches,
+          matches.length > 1,
+          confirm_token
+        );
+        if (pending) {
+          return pending;
+        }
+
+        const removed = await memoryStorage.removeSpecificMemory(category, memory_content, target, {
+          origin: 'remove_specific_memory',
+        });
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: describeMemories(
+                `Removed ${countMemories(removed.length)} from category: ${category}`,
+                removed
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        logger.error('Error removing specific memory:', error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.tool(
+    'list_deleted_memories',
+    'Lists the memories in the trash, most recently deleted first',
+    {
+      is_global: z.boolean().optional().describe('Whether to list the global or local trash'),
+      scope: scopeParameter,
+      category: z
+        .string()
+        .min(1)
+        .optional()
+        .describe('Only list memories deleted from this category'),
+    },
+    async ({ is_global, scope, category }) => {
+      try {
+        const target = targetScope(scope, is_global);
+        logger.info(`Listing deleted memories, scope: ${target}`);
+
+        const deleted = await memoryStorage.listDeleted(target, category);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(deleted, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        logger.error('Error listing deleted memories:', error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.tool(
+    'restore_memory',
+    'Restores a memory from the trash to the category it was deleted from',
+    {
+      id: z.string().min(1).describe('ID of the deleted memory'),
+      is_global: z
+        .boolean()
+        .optional()
+        .describe('Whether the memory was deleted from global or local memory'),
+      scope: scopeParameter,
+    },
+    async ({ id, is_global, scope }) => {
+      try {
+        const target = targetScope(scope, is_global);
+        logger.info(`Restoring memory: ${id}, scope: ${target}`);
+
+        const restored = await memoryStorage.restore(id, target, { origin: 'restore_memory' });
+        if (!restored) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Error: No deleted memory with id: ${id}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Restored memory with id: ${id} to category: ${restored.category}`,
+            },
+          ],
+        };
+      } catch (error) {
+        logger.error('Error restoring memory:', error);
+        return errorResult(error);
+      }
+    }
+  );
+
+  server.tool(
+    'purge_deleted_memories',
+    'Permanently removes a memory from the trash, or empties the trash when no ID is given',
+    {
+      is_global: z.boolean().optional().describe('Whether to purge the global or local trash'),
+      scope: scopeParameter,
+      id: z
+        .string()
+        .min(1)
+        .optional()
+        .describe('ID of the deleted memory to purge, all deleted memories when omitted'),
+    },
+    async ({ is_global, scope, id }) => {
+      try {
+        const target = targetScope(scope, is_global);
+        logger.info(`Purging deleted memories, scope: ${target}`);
+
+        const purged = await memoryStorage.purge(target, id);
+        if (id && purged.length === 0) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Error: No deleted memory with id: ${id}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Permanently removed ${purged.length} deleted ${purged.length === 1 ? 'memory' : 'memories'}`,
+            },
+          ],
+        };
+      } catch (error) {
+        logger.error('Error purging deleted memories:', error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.tool(
+    'memory_history',
+    'Shows how memories changed over time, most recent first, for one memory, a category or a whole scope',
+    {
+      is_global: z.boolean().optional().describe('Whether to show the global or local history'),
+      scope: scopeParameter,
+      id: z.string().min(1).optional().describe('Only show changes of the memory with this ID'),
+      category: z
+        .string()
+        .min(1)
+        .optional()
+        .describe('Only show changes of memories in this category'),
+      limit: z
+        .number()
+        .int()
+        .positive()
+        .optional()
+        .default(50)
+        .describe('Maximum number of changes to return'),
+    },
+    async ({ is_global, scope, id, category, limit }) => {
+      try {
+        const target = targetScope(scope, is_global);
+        logger.info(`Reading memory history, scope: ${target}`);
+
+        const history = await memoryStorage.history(target, { id, category, limit });
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(history, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        logger.error('Error reading memory history:', error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.tool(
+    'create_snapshot',
+    'Saves the current memories of a scope as a snapshot that restore_snapshot can roll back to',
+    {
+      is_global: z.boolean().optional().describe('Whether to snapshot global or local memory'),
+      scope: scopeParameter,
+      label: z.string().min(1).optional().describe('Description of the snapshot'),
+    },
+    async ({ is_global, scope, label }) => {
+      try {
+        const target = targetScope(scope, is_global);
+        logger.info(`Creating snapshot, scope: ${target}`);
+
+        const snapshot = await memoryStorage.snapshot(target, label);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Created snapshot with id: ${snapshot.id} of ${countMemories(snapshot.count)}`,
+            },
+          ],
+        };
+      } catch (error) {
+        logger.error('Error creating snapshot:', error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.tool(
+    'list_snapshots',
+    'Lists the snapshots of a scope, most recent first',
+    {
+      is_global: z.boolean().optional().describe('Whether to list global or local snapshots'),
+      scope: scopeParameter,
+    },
+    async ({ is_global, scope }) => {
+      try {
+        const target = targetScope(scope, is_global);
+        logger.info(`Listing snapshots, scope: ${target}`);
+
+        const snapshots = await memoryStorage.listSnapshots(target);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(snapshots, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        logger.error('Error listing snapshots:', error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.tool(
+    'restore_snapshot',
+    'Rolls all memories of a scope back to a snapshot, taking a snapshot of the current memories first so the restore can be undone',
+    {
+      id: z.string().min(1).describe('ID of the snapshot to restore'),
+      is_global: z.boolean().optional().describe('Whether to restore global or local memory'),
+      scope: scopeParameter,
+    },
+    async ({ id, is_global, scope }) => {
+      try {
+        const target = targetScope(scope, is_global);
+        logger.info(`Restoring snapshot: ${id}, scope: ${target}`);
+
+        const result = await memoryStorage.restoreSnapshot(id, target, {
+          origin: 'restore_snapshot',
+        });
+        if (!result) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Error: No snapshot with id: ${id}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Restored snapshot with id: ${id}, ${countMemories(result.changes)} changed. The previous memories were saved as snapshot with id: ${result.backup.id}`,
+            },
+          ],
+        };
+      } catch (error) {
+        logger.error('Error restoring snapshot:', error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.tool(
+    'export_memories',
+    'Exports the memories of a scope as JSON, Markdown (categories as headings) or CSV, for backups or moving them to another machine',
+    {
+      is_global: z.boolean().optional().describe('Whether to export global or local memory'),
+      scope: scopeParameter,
+      format: z.enum(EXCHANGE_FORMATS).optional().default('json').describe('Format of the export'),
+      categories: z
+        .array(z.string().min(1))
+        .optional()
+        .describe('Only export memories in these categories'),
+    },
+    async ({ is_global, scope, format, categories }) => {
+      try {
+        const target = targetScope(scope, is_global);
+        logger.info(`Exporting memories as ${format}, scope: ${target}`);
+
+        const included = categories?.map(normalizeCategory);
+        const memories = (await memoryStorage.retrieveAll(target)).filter(
+          memory => included === undefined || included.includes(memory.category)
+        );
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: exportMemories(memories, format),
+            },
+          ],
+        };
+      } catch (error) {
+        logger.error('Error exporting memories:', error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.tool(
+    'import_memories',
+    'Imports memories from the output of export_memories. Memories with the same ID, or the same category and content, as existing ones are skipped, overwritten or kept as separate copies',
+    {
+      is_global: z.boolean().optional().describe('Whether to import into global or local memory'),
+      scope: scopeParameter,
+      format: z.enum(EXCHANGE_FORMATS).describe('Format of the content'),
+      content: z.string().describe('Exported memories to import'),
+      strategy: z
+        .enum(['skip', 'overwrite', 'keep_both'])
+        .optional()
+        .default('skip')
+        .describe('What to do with memories that already exist'),
+    },
+    async ({ is_global, scope, format, content, strategy }) => {
+      try {
+        const target = targetScope(scope, is_global);
+        logger.info(`Importing memories from ${format}, scope: ${target}`);
+
+        const records = parseImport(content, format);
+        const result = await memoryStorage.importMemories(records, target, strategy, {
+          origin: 'import_memories',
+        });
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Imported ${countMemories(records.length)}: ${result.created} created, ${result.updated} updated, ${result.skipped} skipped`,
+            },
+          ],
+        };
+      } catch (error) {
+        logger.error('Error importing memories:', error);
+        return errorResult(error);
+      }
+    }
+  );
+
+  return server;
+};
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import {
+  InvalidCategoryError,
+  MAX_CATEGORY_LENGTH,
+  categoryToFileName,
+  normalizeCategory,
+} from '../lib/category-policy.js';
+
+describe('Category Policy', () => {
+  it('normalizes case, whitespace and unicode composition', () => {
+    expect(normalizeCategory('  Development ')).toBe('development');
+    expect(normalizeCategory('Project Notes')).toBe('project notes');
+    expect(normalizeCategory('Café')).toBe('café');
+    expect(normalizeCategory('日本語')).toBe('日本語');
+  });
+
+  it('rejects path traversal and separators', () => {
+    for (const category of ['../../.ssh/authorized_keys', 'foo/bar', 'foo\\bar', '.hidden', '..']) {
+      expect(() => normalizeCategory(category)).toThrow(InvalidCategoryError);
+    }
+  });
+
+  it('rejects reserved, empty and overly long names', () => {
+    expect(() => normalizeCategory('*')).toThrow(/reserved/);
+    expect(() => normalizeCategory('CON')).toThrow(/reserved/);
+    expect(() => normalizeCategory('   ')).toThrow(/must not be empty/);
+    expect(() => normalizeCategory('a'.repeat(MAX_CATEGORY_LENGTH + 1))).toThrow(
+      /at most 64 characters/
+    );
+    expect(normalizeCategory('a'.repeat(MAX_CATEGORY_LENGTH))).toHaveLength(MAX_CATEGORY_LENGTH);
+  });
+
+  it('maps categories to safe file names', () => {
+    expect(categoryToFileName('development')).toBe('development');
+    expect(categoryToFileName('project notes')).toMatch(/^project-notes~[0-9a-f]{12}$/);
+    expect(categoryToFileName('日本語')).toMatch(/^~[0-9a-f]{12}$/);
+    expect(categoryToFileName('project notes')).not.toBe(categoryToFileName('project-notes'));
+  });
+});
@@ -0,0 +1,200 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import { runCli } from '../cli.js';
+import { MemoryStorage } from '../lib/memory-storage.js';
+import { createTempDir, initTestMemoryStorage, removeTempDir } from './test-utils.js';
+
+describe('CLI', () => {
+  let tempDir: string;
+  let globalDir: string;
+  let localDir: string;
+  let output: string;
+
+  // Run a subcommand against the test stores
+  const run = (...args: string[]) =>
+    runCli(['node', 'mcp-server-memory', ...args, '-g', globalDir, '-l', localDir]);
+
+  beforeEach(() => {
+    tempDir = createTempDir();
+    ({ globalDir, localDir } = initTestMemoryStorage(tempDir));
+    output = '';
+    vi.spyOn(process.stdout, 'write').mockImplementation(chunk => {
+      output += String(chunk);
+      return true;
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllEnvs();
+    removeTempDir(tempDir);
+  });
+
+  it('exports memories to stdout', async () => {
+    // Arrange
+    const memoryStorage = new MemoryStorage(globalDir, localDir);
+    await memoryStorage.remember('tools', 'Uses pnpm', ['node'], true);
+
+    // Act
+    await run('export', '--scope', 'global', '--format', 'csv');
+
+    // Assert
+    expect(output).toMatch(
+      /^id,category,data,tags,createdAt,updatedAt,expiresAt\n.*,tools,Uses pnpm,node,/
+    );
+  });
+
+  it('imports an export file, guessing the format from its extension', async () => {
+    // Arrange
+    const file = path.join(tempDir, 'memories.md');
+    fs.writeFileSync(file, '## tools\n\n- Uses pnpm `#node`\n');
+
+    // Act
+    await run('import', file);
+    await run('import', file);
+
+    // Assert
+    expect(output).toBe(
+      'Imported 1 memory: 1 created, 0 updated, 0 skipped\n' +
+        'Imported 1 memory: 0 created, 0 updated, 1 skipped\n'
+    );
+    const memories = await new MemoryStorage(globalDir, localDir).retrieve('tools', false);
+    expect(memories).toMatchObject([{ data: 'Uses pnpm', tags: ['node'] }]);
+  });
+
+  it('rejects an invalid file with its line number', async () => {
+    // Arrange
+    const file = path.join(tempDir, 'memories.csv');
+    fs.writeFileSync(file, 'category,data\ntools\n');
+
+    // Act & Assert
+    await expect(run('import', file)).rejects.toThrow(`${file}:2: Expected 2 fields, found 1`);
+  });
+
+  it('adds, lists, searches and removes memories', async () => {
+    // Act
+    await run('add', 'tools', 'Uses pnpm', '--tags', 'node', 'pkg');
+    const id = /with id: (\S+)/.exec(output)![1];
+    output = '';
+    await run('list', '--scope', 'local');
+    const listed = output;
+    output = '';
+    await run('search', 'pnpm');
+    const found = output;
+    output = '';
+    await run('rm', id);
+
+    // Assert
+    expect(listed).toBe(
+      `Local Memories:\n\nCategory: tools\n- [${id}] Uses pnpm (tags: node, pkg)\n`
+    );
+    expect(found).toBe(`- [${id}] Uses pnpm (tags: node, pkg) (in local category: tools)\n`);
+    expect(output).toBe(`Removed memory with id: ${id}\n`);
+    const memoryStorage = new MemoryStorage(globalDir, localDir);
+    expect(await memoryStorage.retrieve('tools', false)).toEqual([]);
+    expect(await memoryStorage.listDeleted(false)).toMatchObject([{ id }]);
+  });
+
+  it('removes nothing when one of the IDs is unknown', async () => {
+    // Arrange
+    const memoryStorage = new MemoryStorage(globalDir, localDir);
+    const memory = await memoryStorage.remember('tools', 'Uses pnpm', [], false);
+
+    // Act & Assert
+    await expect(run('rm', memory.id, 'missing')).rejects.toThrow(
+      'No local memory with id: missing'
+    );
+    expect(await memoryStorage.retrieve('tools', false)).toHaveLength(1);
+  });
+
+  it('keeps the trash for the configured retention period', async () => {
+    // Arrange
+    vi.stubEnv('MCP_MEMORY_TRASH_RETENTION_DAYS', '90');
+    const earlier = new MemoryStorage(globalDir, localDir, {
+      clock: () => new Date(Date.now() - 55 * 24 * 60 * 60 * 1000),
+    });
+    const old = await earlier.remember('tools', 'Uses npm', [], false);
+    await earlier.removeMemory('tools', old.id, false);
+    const memory = await earlier.remember('tools', 'Uses pnpm', [], false);
+
+    // Act
+    await run('rm', memory.id);
+
+    // Assert
+    const deleted = await new MemoryStorage(globalDir, localDir, {
+      trashRetentionDays: 90,
+    }).listDeleted(false);
+    expect(deleted.map(entry => entry.id).sort()).toEqual([old.id, memory.id].sort());
+  });
+
+  it('holds added and imported memories to the configured quotas', async () => {
+    // Arrange
+    vi.stubEnv('MCP_MEMORY_MAX_DATA_BYTES', '5');
+    const file = path.join(tempDir, 'memories.md');
+    fs.writeFileSync(file, '## tools\n\n- Uses pnpm workspaces\n');
+
+    // Act & Assert
+    await expect(run('add', 'tools', 'Uses pnpm workspaces')).rejects.toThrow(
+      'Memory data is 20 bytes, over the limit of 5 bytes per memory'
+    );
+    await expect(run('import', file)).rejects.toThrow('over the limit of 5 bytes per memory');
+    expect(await new MemoryStorage(globalDir, localDir).retrieveAll(false)).toEqual([]);
+  });
+
+  it('applies the configured duplicate policy to added memories', async () => {
+    // Arrange
+    vi.stubEnv('MCP_MEMORY_ON_DUPLICATE', 'reject');
+    await run('add', 'tools', 'Uses pnpm');
+
+    // Act & Assert
+    await expect(run('add', 'tools', 'uses pnpm.')).rejects.toThrow('Duplicate of memory');
+    await run('add', 'tools', 'uses pnpm.', '--on-duplicate', 'allow');
+    expect(output).toContain('Similar to memory with id:');
+    expect(await new MemoryStorage(globalDir, localDir).retrieve('tools', false)).toHaveLength(2);
+  });
+
+  it('writes to disk even when persistence is turned off for the server', async () => {
+    // Arrange
+    vi.stubEnv('MCP_MEMORY_PERSISTENCE', 'false');
+
+    // Act
+    await run('add', 'tools', 'Uses pnpm');
+
+    // Assert
+    expect(await new MemoryStorage(globalDir, localDir).retrieve('tools', false)).toMatchObject([
+      { data: 'Uses pnpm' },
+    ]);
+  });
+
+  it('counts memories by scope and category', async () => {
+    // Arrange
+    const memoryStorage = new MemoryStorage(globalDir, localDir);
+    await memoryStorage.remember('tools', 'Uses pnpm', [], true);
+    await memoryStorage.remember('tools', 'Uses vitest', [], true);
+    const removed = await memoryStorage.remember('tools', 'Uses npm', [], true);
+    await memoryStorage.removeMemory('tools', removed.id, true);
+
+    // Act
+    await run('stats', '--scope', 'global');
+
+    // Assert
+    expect(output).toBe(
+      `Global (${globalDir}): 2 memories in 1 category, 1 in the trash, 0 snapshots\n  tools: 2\n`
+    );
+  });
+
+  it('reports invalid category files with doctor', async () => {
+    // Arrange
+    const memoryStorage = new MemoryStorage(globalDir, localDir);
+    await memoryStorage.remember('tools', 'Uses pnpm', [], false);
+    await run('doctor');
+    const healthy = output;
+    fs.appendFileSync(path.join(localDir, 'tools.jsonl'), '{not json\n');
+
+    // Act & Assert
+    await expect(run('doctor')).rejects.toThrow('Found 1 problem');
+    expect(healthy).toContain('No problems found');
+    expect(output).toContain(`error: ${path.join(localDir, 'tools.jsonl')}:3:`);
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { execFile } from 'child_process';
+import fs from 'fs';
+import path from 'path';
+import { promisify } from 'util';
+import { withFileLock } from '../lib/file-lock.js';
+import { InMemoryBackend } from '../lib/in-memory-backend.js';
+import { MemoryStorage } from '../lib/memory-storage.js';
+import { createTempDir, initTestMemoryStorage, removeTempDir } from './test-utils.js';
+
+const run = promisify(execFile);
+const writerScript = path.join(import.meta.dirname, 'fixtures', 'concurrent-writer.ts');
+
+describe('Concurrent Writes', () => {
+  let tempDir: string;
+  let globalDir: string;
+  let localDir: string;
+
+  beforeEach(() => {
+    tempDir = createTempDir();
+    ({ globalDir, localDir } = initTestMemoryStorage(tempDir));
+  });
+
+  afterEach(() => {
+    removeTempDir(tempDir);
+  });
+
+  it('keeps every memory written by several processes to one category', async () => {
+    // Arrange
+    const writers = ['a', 'b', 'c', 'd'];
+    const count = 20;
+
+    // Act
+    await Promise.all(
+      writers.map(writer =>
+        run(process.execPath, [
+          '--import',
+          'tsx',
+          writerScript,
+          globalDir,
+          localDir,
+          writer,
+          String(count),
+        ])
+      )
+    );
+
+    // Assert
+    const memories = await new MemoryStorage(globalDir, localDir).retrieve('shared', true);
+    const expected = writers.flatMap(writer =>
+      Array.from({ length: count }, (_, index) =>
+        index % 2 === 0 ? `${writer}-${index}-updated` : `${writer}-${index}`
+      )
+    );
+    expect(memories.map(memory => memory.data).sort()).toEqual(expected.sort());
+    expect(new Set(memories.map(memory => memory.id)).size).toBe(writers.length * count);
+    expect(fs.readdirSync(globalDir).sort()).toEqual(['.history', 'shared.jsonl']);
+  }, 60_000);
+
+  it('serializes mutations within a process', async () => {
+    // Arrange
+    const memoryStorage = new MemoryStorage(globalDir, localDir);
+    const inMemoryStorage = new MemoryStorage(globalDir, localDir, {
+      backend: new InMemoryBackend(),
+    });
+
+    for (const storage of [memoryStorage, inMemoryStorage]) {
+      const memories = await Promise.all(
+        Array.from({ length: 10 }, (_, index) =>
+          storage.remember('parallel', `Memory ${index}`, [], false)
+        )
+      );
+
+      // Act
+      await Promise.all(
+        memories.map(memory => storage.update(memory.id, false, { data: `${memory.data}!` }))
+      );
+
+      // Assert
+      const stored = await storage.retrieve('parallel', false);
+      expect(stored).toHaveLength(10);
+      expect(stored.every(memory => memory.data.endsWith('!'))).toBe(true);
+    }
+  });
+
+  it('recovers the history and snapshot index from an append cut short by a crash', async () => {
+    // Arrange
+    const memoryStorage = new MemoryStorage(globalDir, localDir);
+    await memoryStorage.remember('tools', 'Uses pnpm', [], false);
+    await memoryStorage.snapshot(false, 'before');
+    const historyPath = path.join(localDir, '.history');
+    // Longer than the chunks the end of the document is searched in
+    fs.appendFileSync(historyPath, `{"at":"2025-06-01T${' '.repeat(5000)}`);
+    fs.appendFileSync(path.join(localDir, '.snapshots'), '{"id":');
+    const { ino } = fs.statSync(historyPath);
+
+    // Act
+    const torn = await memoryStorage.history(false);
+    await memoryStorage.remember('tools', 'Uses vitest', [], false);
+    await memoryStorage.snapshot(false, 'after');
+
+    // Assert
+    expect(torn).toMatchObject([{ type: 'create', after: { data: 'Uses pnpm' } }]);
+    // Appended to in place rather than rewritten
+    expect(fs.statSync(historyPath).ino).toBe(ino);
+    expect(await memoryStorage.history(false)).toMatchObject([
+      { type: 'create', after: { data: 'Uses vitest' } },
+      { type: 'create', after: { data: 'Uses pnpm' } },
+    ]);
+    expect(await memoryStorage.listSnapshots(false)).toMatchObject([
+      { label: 'after' },
+      { label: 'before' },
+    ]);
+    expect(fs.readdirSync(localDir).filter(entry => entry.endsWith('.tmp'))).toEqual([]);
+  });
+
+  it('breaks locks left behind by a crashed process', async () => {
+    // Arrange
+    const lockPath = path.join(globalDir, '.lock');
+    fs.mkdirSync(lockPath);
+    const stale = new Date(Date.now() - 60_000);
+    fs.utimesSync(lockPath, stale, stale);
+
+    // Act
+    const result = await withFileLock(lockPath, async () => 'acquired', { timeoutMs: 1000 });
+
+    // Assert
+    expect(result).toBe('acquired');
+    expect(fs.existsSync(lockPath)).toBe(false);
+  });
+});
@@ -0,0 +1,222 @@
+import { describe, test, beforeEach, expect, afterEach, vi } from "vitest";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { SSEClientTransport } from "@modelcontextprotocol/sdk/client/sse.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { CallToolResultSchema, ListToolsResultSchema } from "@modelcontextprotocol/sdk/types.js";
+import fs from 'fs';
+import http from 'http';
+import path from 'path';
+import os from 'os';
+import { RunningHttpServer, startHttpServer } from '../../http-server.js';
+import { MemoryStorage } from '../../lib/memory-storage.js';
+import { initializeServer } from '../../server.js';
+
+const AUTH_TOKEN = "test-token";
+
+describe("Memory MCP Server E2E (over a loopback port)", () => {
+  let testDir: string;
+  let memoryStorage: MemoryStorage;
+  let httpServer: RunningHttpServer;
+  let clients: Client[];
+
+  const createServer = () => initializeServer(memoryStorage, { instructions: 'Test instructions' });
+
+  // Connect a client over Streamable HTTP, sending the bearer token
+  const connectHttpClient = async (url: string) => {
+    const client = new Client({ name: "test client", version: "1.0" });
+    await client.connect(
+      new StreamableHTTPClientTransport(new URL(url), {
+        requestInit: { headers: { Authorization: `Bearer ${AUTH_TOKEN}` } },
+      }),
+    );
+    clients.push(client);
+    return client;
+  };
+
+  const callTool = (client: Client, name: string, args: Record<string, unknown>) =>
+    client.request(
+      { method: "tools/call", params: { name, arguments: args } },
+      CallToolResultSchema,
+    );
+
+  // Post a tools/list request with the given headers, resolving with the response status
+  const postWithHeaders = (url: string, headers: Record<string, string>) =>
+    new Promise<number>((resolve, reject) => {
+      const req = http.request(
+        url,
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Accept: "application/json, text/event-stream",
+            ...headers,
+          },
+        },
+        res => {
+          res.resume();
+          resolve(res.statusCode ?? 0);
+        },
+      );
+      req.on("error", reject);
+      req.end(JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/list" }));
+    });
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'memory-test-'));
+    const globalStorageLocation = path.join(testDir, 'global');
+    const localStorageLocation = path.join(testDir, 'local');
+
+    fs.mkdirSync(globalStorageLocation, { recursive: true });
+    fs.mkdirSync(localStorageLocation, { recursive: true });
+
+    memoryStorage = new MemoryStorage(globalStorageLocation, localStorageLocation);
+    clients = [];
+  });
+
+  afterEach(async () => {
+    for (const client of clients) {
+      await client.close();
+    }
+    await httpServer.close();
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  test("tools are served over Streamable HTTP", async () => {
+    httpServer = await startHttpServer(createServer, {
+      transport: "http",
+      host: "127.0.0.1",
+      port: 0,
+      authToken: AUTH_TOKEN,
+    });
+    const client = await connectHttpClient(httpServer.url);
+
+    const tools = await client.request({ method: "tools/list", params: {} }, ListToolsResultSchema);
+    const remembered = await callTool(client, "remember_memory", {
+      category: "tools",
+      data: "Uses pnpm",
+      is_global: false,
+    });
+
+    expect(tools.tools.length).toBe(17);
+    expect(remembered.isError).toBeFalsy();
+    expect(await memoryStorage.retrieve("tools", false)).toMatchObject([{ data: "Uses pnpm" }]);
+  });
+
+  test("clients in separate sessions share the store", async () => {
+    httpServer = await startHttpServer(createServer, {
+      transport: "http",
+      host: "127.0.0.1",
+      port: 0,
+      authToken: AUTH_TOKEN,
+    });
+    const writer = await connectHttpClient(httpServer.url);
+    const reader = await connectHttpClient(httpServer.url);
+
+    await callTool(writer, "remember_memory", {
+      category: "tools",
+      data: "Uses pnpm",
+      is_global: true,
+    });
+    const res = await callTool(reader, "retrieve_memories", { category: "tools", is_global: true });
+
+    expect(res.content[0].text).toContain("Uses pnpm");
+  });
+
+  test("requests without the bearer token are rejected", async () => {
+    httpServer = await startHttpServer(createServer, {
+      transport: "http",
+      host: "127.0.0.1",
+      port: 0,
+      authToken: AUTH_TOKEN,
+    });
+
+    const res = await fetch(httpServer.url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Authorization: "Bearer wrong" },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/list" }),
+    });
+
+    expect(res.status).toBe(401);
+    expect(res.headers.get("www-authenticate")).toBe("Bearer");
+  });
+
+  test("requests without a session are rejected unless they initialize one", async () => {
+    httpServer = await startHttpServer(createServer, {
+      transport: "http",
+      host: "127.0.0.1",
+      port: 0,
+    });
+
+    const res = await fetch(httpServer.url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Accept: "application/json, text/event-stream" },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/list" }),
+    });
+
+    expect(res.status).toBe(400);
+  });
+
+  test("requests from other sites are rejected to prevent DNS rebinding", async () => {
+    httpServer = await startHttpServer(createServer, {
+      transport: "http",
+      host: "127.0.0.1",
+      port: 0,
+      allowedHosts: ["memory.example"],
+    });
+    const { port } = new URL(httpServer.url);
+
+    expect(await postWithHeaders(httpServer.url, { Origin: "http://attacker.example" })).toBe(403);
+    expect(await postWithHeaders(httpServer.url, { Origin: "null" })).toBe(403);
+    expect(await postWithHeaders(httpServer.url, { Host: `attacker.example:${port}` })).toBe(403);
+    // Past the checks, the request fails for lacking a session
+    expect(await postWithHeaders(httpServer.url, { Origin: `http://localhost:${port}` })).toBe(400);
+    expect(await postWithHeaders(httpServer.url, { Host: `[::1]:${port}` })).toBe(400);
+    expect(
+      await postWithHeaders(httpServer.url, {
+        Host: "memory.example",
+        Origin: "https://memory.example",
+      }),
+    ).toBe(400);
+  });
+
+  test("sessions left idle are closed", async () => {
+    httpServer = await startHttpServer(createServer, {
+      transport: "http",
+      host: "127.0.0.1",
+      port: 0,
+      sessionIdleTimeoutMs: 100,
+    });
+    const client = await connectHttpClient(httpServer.url);
+    const { sessionId } = client.transport as StreamableHTTPClientTransport;
+    await callTool(client, "retrieve_memories", { category: "tools", is_global: true });
+    expect(memoryStorage.listenerCount("change")).toBe(1);
+
+    // The client goes away without ending its session
+    await client.close();
+    clients = [];
+
+    await vi.waitFor(() => expect(memoryStorage.listenerCount("change")).toBe(0), {
+      timeout: 2000,
+    });
+    expect(await postWithHeaders(httpServer.url, { "Mcp-Session-Id": sessionId! })).toBe(404);
+  });
+
+  test("tools are served over SSE", async () => {
+    httpServer = await startHttpServer(createServer, {
+      transport: "sse",
+      host: "127.0.0.1",
+      port: 0,
+    });
+    const client = new Client({ name: "test client", version: "1.0" });
+    await client.connect(new SSEClientTransport(new URL(httpServer.url)));
+    clients.push(client);
+
+    await callTool(client, "remember_memory", {
+      category: "tools",
+      data: "Uses pnpm",
+      is_global: false,
+    });
+
+    expect(await memoryStorage.retrieve("tools", false)).toMatchObject([{ data: "Uses pnpm" }]);
+  });
+});
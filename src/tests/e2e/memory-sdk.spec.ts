@@ -4,13 +4,24 @@ import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
 import {
   ListToolsResultSchema,
   CallToolResultSchema,
+  ListResourcesResultSchema,
+  ListResourceTemplatesResultSchema,
+  ReadResourceResultSchema,
+  EmptyResultSchema,
+  ResourceUpdatedNotificationSchema,
+  ResourceListChangedNotificationSchema,
+  GetPromptResultSchema,
+  ListPromptsResultSchema,
+  ElicitRequestSchema,
 } from "@modelcontextprotocol/sdk/types.js";
 import fs from 'fs';
 import path from 'path';
 import os from 'os';
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { HashedNgramEmbeddingProvider } from '../../lib/embeddings.js';
 import { MemoryStorage } from '../../lib/memory-storage.js';
-import { z } from 'zod';
+import { registerMemoryResources } from '../../resources.js';
+import { initializeServer } from '../../server.js';
 
 describe("Memory MCP Server E2E (in‐memory)", () => {
   let mcpServer: McpServer;
@@ -30,122 +41,9 @@ describe("Memory MCP Server E2E (in‐memory)", () => {
     
     memoryStorage = new MemoryStorage(globalStorageLocation, localStorageLocation);
     
-    mcpServer = new McpServer(
-      {
-        name: '@mkusaka/mcp-server-memory',
-        version: '0.0.4',
-      },
-      {
-        instructions: 'Test instructions',
-      }
-    );
-
-    mcpServer.tool(
-      'remember_memory',
-      'Stores a memory with optional tags in a specified category',
-      {
-        category: z.string().min(1).describe('The category to store the memory in'),
-        data: z.string().min(1).describe('The data to store in memory'),
-        tags: z
-          .array(z.string())
-          .optional()
-          .default([])
-          .describe('Optional tags for categorizing the memory'),
-        is_global: z.boolean().describe('Whether to store in global or local memory'),
-      },
-      async ({ category, data, tags, is_global }) => {
-        await memoryStorage.remember(category, data, tags || [], is_global);
-        return {
-          content: [
-            {
-              type: 'text',
-              text: `Stored memory in category: ${category}`,
-            },
-          ],
-        };
-      }
-    );
-
-    mcpServer.tool(
-      'retrieve_memories',
-      'Retrieves all memories from a specified category',
-      {
-        category: z
-          .string()
-          .min(1)
-          .describe("The category to retrieve memories from, use '*' for all categories"),
-        is_global: z.boolean().describe('Whether to retrieve from global or local memory'),
-      },
-      async ({ category, is_global }) => {
-        let memories;
-        if (category === '*') {
-          memories = await memoryStorage.retrieveAll(is_global);
-        } else {
-          memories = await memoryStorage.retrieve(category, is_global);
-        }
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify(memories, null, 2),
-            },
-          ],
-        };
-      }
-    );
-
-    mcpServer.tool(
-      'remove_memory_category',
-      'Removes all memories within a specified category',
-      {
-        category: z.string().min(1).describe("The category to remove, use '*' for all categories"),
-        is_global: z.boolean().describe('Whether to remove from global or local memory'),
-      },
-      async ({ category, is_global }) => {
-        if (category === '*') {
-          await memoryStorage.clearAllGlobalOrLocalMemories(is_global);
-          return {
-            content: [
-              {
-                type: 'text',
-                text: `Cleared all ${is_global ? 'global' : 'local'} memory categories`,
-              },
-            ],
-          };
-        } else {
-          await memoryStorage.clearMemory(category, is_global);
-          return {
-            content: [
-              {
-                type: 'text',
-                text: `Cleared memories in category: ${category}`,
-              },
-            ],
-          };
-        }
-      }
-    );
-
-    mcpServer.tool(
-      'remove_specific_memory',
-      'Removes a specific memory within a specified category',
-      {
-        category: z.string().min(1).describe('The category containing the memory to remove'),
-        memory_content: z.string().min(1).describe('Content of the memory to remove (partial match)'),
-        is_global: z.boolean().describe('Whether to remove from global or local memory'),
-      },
-      async ({ category, memory_content, is_global }) => {
-        await memoryStorage.removeSpecificMemory(category, memory_content, is_global);
-        return {
-          content: [
-            {
-              type: 'text',
-              text: `Removed specific memory from category: ${category}`,
-            },
-          ],
-        };
-      }
-    );
+    mcpServer = initializeServer(memoryStorage, {
+      instructions: 'Test instructions',
+    });
 
     client = new Client({ name: "test client", version: "1.0" });
     [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
@@ -162,13 +60,24 @@ describe("Memory MCP Server E2E (in‐memory)", () => {
       ListToolsResultSchema,
     );
     expect(Array.isArray(res.tools)).toBe(true);
-    expect(res.tools.length).toBe(4);
+    expect(res.tools.length).toBe(17);
     
     const toolNames = res.tools.map(tool => tool.name);
     expect(toolNames).toContain('remember_memory');
     expect(toolNames).toContain('retrieve_memories');
     expect(toolNames).toContain('remove_memory_category');
     expect(toolNames).toContain('remove_specific_memory');
+    expect(toolNames).toContain('search_memories');
+    expect(toolNames).toContain('update_memory');
+    expect(toolNames).toContain('get_memory_context');
+    expect(toolNames).toContain('list_deleted_memories');
+    expect(toolNames).toContain('restore_memory');
+    expect(toolNames).toContain('purge_deleted_memories');
+    expect(toolNames).toContain('memory_history');
+    expect(toolNames).toContain('create_snapshot');
+    expect(toolNames).toContain('list_snapshots');
+    expect(toolNames).toContain('restore_snapshot');
+    expect(toolNames).toContain('memory_stats');
   });
 
   test("remember_memory tool stores memory correctly", async () => {
@@ -187,7 +96,9 @@ describe("Memory MCP Server E2E (in‐memory)", () => {
       },
       CallToolResultSchema,
     );
-    expect(storeRes.content[0].text).toBe("Stored memory in category: test_category");
+    expect(storeRes.content[0].text).toMatch(
+      /^Stored memory in category: test_category with id: [0-9a-f-]{36}$/,
+    );
     
     const retrieveRes = await client.request(
       {
@@ -204,8 +115,14 @@ describe("Memory MCP Server E2E (in‐memory)", () => {
     );
     
     const memories = JSON.parse(retrieveRes.content[0].text as string);
-    expect(memories).toHaveProperty("test memory");
-    expect(memories["test memory"]).toContain("Test memory data");
+    expect(memories).toHaveLength(1);
+    expect(memories[0]).toMatchObject({
+      category: "test_category",
+      data: "Test memory data",
+      tags: ["test", "memory"],
+      isGlobal: true,
+    });
+    expect(storeRes.content[0].text).toContain(memories[0].id);
   });
 
   test("retrieve_memories tool returns all memories", async () => {
@@ -248,7 +165,8 @@ describe("Memory MCP Server E2E (in‐memory)", () => {
           name: "retrieve_memories", 
           arguments: { 
             category: "*", 
-            is_global: false 
+            is_global: false,
+            group_by: "category"
           } 
         },
       },
@@ -291,7 +209,9 @@ describe("Memory MCP Server E2E (in‐memory)", () => {
       },
       CallToolResultSchema,
     );
-    expect(removeRes.content[0].text).toBe("Cleared memories in category: to_remove");
+    expect(removeRes.content[0].text).toMatch(
+      /^Cleared memories in category: to_remove, 1 memory moved to the trash\n- \[[0-9a-f-]+\] Memory to remove$/
+    );
     
     const retrieveRes = await client.request(
       {
@@ -308,7 +228,7 @@ describe("Memory MCP Server E2E (in‐memory)", () => {
     );
     
     const memories = JSON.parse(retrieveRes.content[0].text as string);
-    expect(Object.keys(memories).length).toBe(0);
+    expect(memories.length).toBe(0);
   });
 
   test("remove_specific_memory tool removes specific memory", async () => {
@@ -358,7 +278,9 @@ describe("Memory MCP Server E2E (in‐memory)", () => {
       },
       CallToolResultSchema,
     );
-    expect(removeSpecificRes.content[0].text).toBe("Removed specific memory from category: mixed");
+    expect(removeSpecificRes.content[0].text).toMatch(
+      /^Removed 1 memory from category: mixed\n- \[[0-9a-f-]+\] Remove this memory \(tags: remove\)$/
+    );
     
     const retrieveRes = await client.request(
       {
@@ -375,8 +297,1166 @@ describe("Memory MCP Server E2E (in‐memory)", () => {
     );
     
     const memories = JSON.parse(retrieveRes.content[0].text as string);
-    expect(Object.keys(memories).length).toBe(1);
-    expect(memories).toHaveProperty("keep");
-    expect(memories["keep"]).toContain("Keep this memory");
+    expect(memories.length).toBe(1);
+    expect(memories[0].tags).toEqual(["keep"]);
+    expect(memories[0].data).toBe("Keep this memory");
+  });
+
+  test("search_memories tool returns ranked matches across scopes", async () => {
+    await client.request(
+      {
+        method: "tools/call",
+        params: {
+          name: "remember_memory",
+          arguments: {
+            category: "development",
+            data: "Uses vitest for unit tests",
+            tags: ["testing"],
+            is_global: true
+          }
+        },
+      },
+      CallToolResultSchema,
+    );
+
+    await client.request(
+      {
+        method: "tools/call",
+        params: {
+          name: "remember_memory",
+          arguments: {
+            category: "project",
+            data: "Unit tests live in src/tests",
+            tags: ["testing", "layout"],
+            is_global: false
+          }
+        },
+      },
+      CallToolResultSchema,
+    );
+
+    const searchRes = await client.request(
+      {
+        method: "tools/call",
+        params: {
+          name: "search_memories",
+          arguments: {
+            query: "vitest unit tests",
+            tags: ["testing"]
+          }
+        },
+      },
+      CallToolResultSchema,
+    );
+
+    const results = JSON.parse(searchRes.content[0].text as string);
+    expect(results).toHaveLength(2);
+    expect(results[0]).toMatchObject({
+      category: "development",
+      data: "Uses vitest for unit tests",
+      tags: ["testing"],
+      scope: "global",
+    });
+    expect(results[1].scope).toBe("local");
+    expect(results[0].score).toBeGreaterThan(results[1].score);
+  });
+
+  test("remove_specific_memory tool removes a memory by id", async () => {
+    const storeRes = await client.request(
+      {
+        method: "tools/call",
+        params: {
+          name: "remember_memory",
+          arguments: {
+            category: "duplicates",
+            data: "Repeated memory",
+            tags: [],
+            is_global: false
+          }
+        },
+      },
+      CallToolResultSchema,
+    );
+    const id = (storeRes.content[0].text as string).split("with id: ")[1];
+
+    await client.request(
+      {
+        method: "tools/call",
+        params: {
+          name: "remember_memory",
+          arguments: {
+            category: "duplicates",
+            data: "Repeated memory",
+            tags: [],
+            is_global: false
+          }
+        },
+      },
+      CallToolResultSchema,
+    );
+
+    const removeRes = await client.request(
+      {
+        method: "tools/call",
+        params: {
+          name: "remove_specific_memory",
+          arguments: {
+            category: "duplicates",
+            id,
+            is_global: false
+          }
+        },
+      },
+      CallToolResultSchema,
+    );
+    expect(removeRes.content[0].text).toBe(`Removed memory with id: ${id} from category: duplicates`);
+
+    const retrieveRes = await client.request(
+      {
+        method: "tools/call",
+        params: {
+          name: "retrieve_memories",
+          arguments: {
+            category: "duplicates",
+            is_global: false
+          }
+        },
+      },
+      CallToolResultSchema,
+    );
+
+    const memories = JSON.parse(retrieveRes.content[0].text as string);
+    expect(memories).toHaveLength(1);
+    expect(memories[0].id).not.toBe(id);
+  });
+
+  test("update_memory tool edits a memory and returns before and after", async () => {
+    const storeRes = await client.request(
+      {
+        method: "tools/call",
+        params: {
+          name: "remember_memory",
+          arguments: {
+            category: "development",
+            data: "Uses npm",
+            tags: ["tools"],
+            is_global: false
+          }
+        },
+      },
+      CallToolResultSchema,
+    );
+    const id = (storeRes.content[0].text as string).split("with id: ")[1];
+
+    const updateRes = await client.request(
+      {
+        method: "tools/call",
+        params: {
+          name: "update_memory",
+          arguments: {
+            id,
+            is_global: false,
+            data: "Uses pnpm",
+            move_to_global: true
+          }
+        },
+      },
+      CallToolResultSchema,
+    );
+
+    const result = JSON.parse(updateRes.content[0].text as string);
+    expect(result.before).toMatchObject({ id, data: "Uses npm", isGlobal: false });
+    expect(result.after).toMatchObject({ id, data: "Uses pnpm", tags: ["tools"], isGlobal: true });
+
+    const missingRes = await client.request(
+      {
+        method: "tools/call",
+        params: {
+          name: "update_memory",
+          arguments: {
+            id,
+            is_global: false,
+            data: "Uses yarn"
+          }
+        },
+      },
+      CallToolResultSchema,
+    );
+    expect(missingRes.isError).toBe(true);
+  });
+
+  test("retrieve_memories tool groups memories by tag without hiding any", async () => {
+    for (const data of ["First", "Second"]) {
+      await client.request(
+        {
+          method: "tools/call",
+          params: {
+            name: "remember_memory",
+            arguments: {
+              category: "grouped",
+              data,
+              tags: ["shared", "tags"],
+              is_global: true
+            }
+          },
+        },
+        CallToolResultSchema,
+      );
+    }
+
+    const retrieveRes = await client.request(
+      {
+        method: "tools/call",
+        params: {
+          name: "retrieve_memories",
+          arguments: {
+            category: "grouped",
+            is_global: true,
+            group_by: "tag"
+          }
+        },
+      },
+      CallToolResultSchema,
+    );
+
+    const groups = JSON.parse(retrieveRes.content[0].text as string);
+    expect(Object.keys(groups)).toEqual(["shared", "tags"]);
+    expect(groups["shared"].map((memory: { data: string }) => memory.data)).toEqual(["First", "Second"]);
+    expect(groups["tags"]).toEqual(groups["shared"]);
+  });
+
+  test("remember_memory tool rejects unsafe category names", async () => {
+    const storeRes = await client.request(
+      {
+        method: "tools/call",
+        params: {
+          name: "remember_memory",
+          arguments: {
+            category: "../../outside",
+            data: "Should not be stored",
+            tags: [],
+            is_global: true
+          }
+        },
+      },
+      CallToolResultSchema,
+    );
+
+    expect(storeRes.isError).toBe(true);
+    expect(storeRes.content[0].text).toMatch(/^Error: Invalid category "..\/..\/outside"/);
+  });
+
+  test("remember_memory and update_memory tools reject empty tags", async () => {
+    await expect(
+      client.request(
+        {
+          method: "tools/call",
+          params: {
+            name: "remember_memory",
+            arguments: { category: "tools", data: "Uses pnpm", tags: [""], is_global: false }
+          },
+        },
+        CallToolResultSchema,
+      ),
+    ).rejects.toThrow(/Invalid arguments for tool remember_memory/);
+
+    const memory = await memoryStorage.remember("tools", "Uses pnpm", ["node"], false);
+    await expect(
+      client.request(
+        {
+          method: "tools/call",
+          params: {
+            name: "update_memory",
+            arguments: { id: memory.id, is_global: false, tags: ["node", ""] }
+          },
+        },
+        CallToolResultSchema,
+      ),
+    ).rejects.toThrow(/Invalid arguments for tool update_memory/);
+    expect(await memoryStorage.retrieve("tools", false)).toEqual([memory]);
+  });
+
+  test("memories are exposed as resources per scope and category", async () => {
+    await client.request(
+      {
+        method: "tools/call",
+        params: {
+          name: "remember_memory",
+          arguments: {
+            category: "development",
+            data: "Uses pnpm",
+            tags: ["tools"],
+            is_global: true
+          }
+        },
+      },
+      CallToolResultSchema,
+    );
+
+    const templatesRes = await client.request(
+      { method: "resources/templates/list", params: {} },
+      ListResourceTemplatesResultSchema,
+    );
+    expect(templatesRes.resourceTemplates.map(template => template.uriTemplate)).toEqual([
+      "memory://global/{category}",
+      "memory://local/{category}",
+    ]);
+
+    const listRes = await client.request(
+      { method: "resources/list", params: {} },
+      ListResourcesResultSchema,
+    );
+    expect(listRes.resources.map(resource => resource.uri)).toEqual([
+      "memory://global",
+      "memory://local",
+      "memory://global/development",
+    ]);
+
+    const readRes = await client.request(
+      { method: "resources/read", params: { uri: "memory://global/development" } },
+      ReadResourceResultSchema,
+    );
+    expect(readRes.contents[0].mimeType).toBe("application/json");
+    const memories = JSON.parse(readRes.contents[0].text as string);
+    expect(memories).toHaveLength(1);
+    expect(memories[0]).toMatchObject({ category: "development", data: "Uses pnpm" });
+  });
+
+  test("subscribed clients are notified when memories change", async () => {
+    const updated: string[] = [];
+    let listChanged = 0;
+    client.setNotificationHandler(ResourceUpdatedNotificationSchema, notification => {
+      updated.push(notification.params.uri);
+    });
+    client.setNotificationHandler(ResourceListChangedNotificationSchema, () => {
+      listChanged++;
+    });
+
+    await client.request(
+      { method: "resources/subscribe", params: { uri: "memory://local/project" } },
+      EmptyResultSchema,
+    );
+
+    await client.request(
+      {
+        method: "tools/call",
+        params: {
+          name: "remember_memory",
+          arguments: {
+            category: "project",
+            data: "Tests live in src/tests",
+            tags: [],
+            is_global: false
+          }
+        },
+      },
+      CallToolResultSchema,
+    );
+    await client.request(
+      {
+        method: "tools/call",
+        params: {
+          name: "remember_memory",
+          arguments: {
+            category: "other",
+            data: "Not subscribed",
+            tags: [],
+            is_global: false
+          }
+        },
+      },
+      CallToolResultSchema,
+    );
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    expect(updated).toEqual(["memory://local/project"]);
+    expect(listChanged).toBeGreaterThan(0);
+  });
+
+  test("closed servers stop listening for changes and keep their other close handlers", async () => {
+    const listeners = memoryStorage.listenerCount("change");
+    const resourceServer = new McpServer({ name: "test server", version: "1.0" });
+    let closed = 0;
+    resourceServer.server.onclose = () => {
+      closed++;
+    };
+    registerMemoryResources(resourceServer, memoryStorage);
+    const resourceClient = new Client({ name: "test client", version: "1.0" });
+    const [resourceClientTransport, resourceServerTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([
+      resourceServer.connect(resourceServerTransport),
+      resourceClient.connect(resourceClientTransport),
+    ]);
+    expect(memoryStorage.listenerCount("change")).toBe(listeners + 1);
+
+    await resourceClient.close();
+
+    expect(closed).toBe(1);
+    expect(memoryStorage.listenerCount("change")).toBe(listeners);
+  });
+
+  test("get_memory_context reflects memories stored after startup", async () => {
+    const emptyRes = await client.request(
+      {
+        method: "tools/call",
+        params: { name: "get_memory_context", arguments: {} },
+      },
+      CallToolResultSchema,
+    );
+    expect(emptyRes.content[0].text).toBe("No memories saved yet.");
+
+    await client.request(
+      {
+        method: "tools/call",
+        params: {
+          name: "remember_memory",
+          arguments: {
+            category: "preferences",
+            data: "Prefers tabs",
+            tags: ["style"],
+            is_global: true
+          }
+        },
+      },
+      CallToolResultSchema,
+    );
+
+    const contextRes = await client.request(
+      {
+        method: "tools/call",
+        params: { name: "get_memory_context", arguments: { scope: "global" } },
+      },
+      CallToolResultSchema,
+    );
+    const text = contextRes.content[0].text as string;
+    expect(text).toContain("Global Memories:");
+    expect(text).toContain("Category: preferences");
+    expect(text).toMatch(/- \[[0-9a-f-]+\] Prefers tabs \(tags: style\)/);
+
+    const promptRes = await client.request(
+      { method: "prompts/get", params: { name: "memory_context", arguments: {} } },
+      GetPromptResultSchema,
+    );
+    expect(promptRes.messages[0].content.text).toContain("Prefers tabs");
+  });
+
+  test("prompts/list returns the memory workflow prompts", async () => {
+    const res = await client.request(
+      { method: "prompts/list", params: {} },
+      ListPromptsResultSchema,
+    );
+
+    expect(res.prompts.map(prompt => prompt.name)).toEqual([
+      "memory_context",
+      "save_preference",
+      "recall_project_context",
+      "review_memories",
+    ]);
+  });
+
+  test("workflow prompts embed the relevant memories", async () => {
+    for (const [category, data, is_global] of [
+      ["development", "Uses pnpm for package management", false],
+      ["personal", "Prefers dark mode", true],
+    ] as const) {
+      await client.request(
+        {
+          method: "tools/call",
+          params: {
+            name: "remember_memory",
+            arguments: { category, data, tags: [], is_global }
+          },
+        },
+        CallToolResultSchema,
+      );
+    }
+
+    const saveRes = await client.request(
+      {
+        method: "prompts/get",
+        params: { name: "save_preference", arguments: { preference: "Use pnpm workspaces" } },
+      },
+      GetPromptResultSchema,
+    );
+    const saveText = saveRes.messages[0].content.text as string;
+    expect(saveText).toContain("I'd like to remember this: Use pnpm workspaces");
+    expect(saveText).toContain("Existing local categories: development");
+    expect(saveText).toContain("Uses pnpm for package management (in local category: development)");
+    expect(saveText).not.toContain("Prefers dark mode");
+
+    const recallRes = await client.request(
+      { method: "prompts/get", params: { name: "recall_project_context", arguments: {} } },
+      GetPromptResultSchema,
+    );
+    const recallText = recallRes.messages[0].content.text as string;
+    expect(recallText).toContain("Uses pnpm for package management");
+    expect(recallText).not.toContain("Prefers dark mode");
+
+    const reviewRes = await client.request(
+      {
+        method: "prompts/get",
+        params: { name: "review_memories", arguments: { category: "personal" } },
+      },
+      GetPromptResultSchema,
+    );
+    const reviewText = reviewRes.messages[0].content.text as string;
+    expect(reviewText).toContain("Category: personal");
+    expect(reviewText).not.toContain("Uses pnpm");
+  });
+
+  test("removed memories can be listed and restored from the trash", async () => {
+    const storeRes = await client.request(
+      {
+        method: "tools/call",
+        params: {
+          name: "remember_memory",
+          arguments: {
+            category: "personal",
+            data: "Name is Sam",
+            tags: [],
+            is_global: true
+          }
+        },
+      },
+      CallToolResultSchema,
+    );
+    const id = (storeRes.content[0].text as string).split("with id: ")[1];
+
+    await client.request(
+      {
+        method: "tools/call",
+        params: { name: "remove_memory_category", arguments: { category: "*", is_global: true } },
+      },
+      CallToolResultSchema,
+    );
+
+    const listRes = await client.request(
+      {
+        method: "tools/call",
+        params: { name: "list_deleted_memories", arguments: { is_global: true } },
+      },
+      CallToolResultSchema,
+    );
+    const deleted = JSON.parse(listRes.content[0].text as string);
+    expect(deleted).toHaveLength(1);
+    expect(deleted[0]).toMatchObject({ id, category: "personal", data: "Name is Sam" });
+
+    const restoreRes = await client.request(
+      {
+        method: "tools/call",
+        params: { name: "restore_memory", arguments: { id, is_global: true } },
+      },
+      CallToolResultSchema,
+    );
+    expect(restoreRes.content[0].text).toBe(`Restored memory with id: ${id} to category: personal`);
+
+    const retrieveRes = await client.request(
+      {
+        method: "tools/call",
+        params: { name: "retrieve_memories", arguments: { category: "personal", is_global: true } },
+      },
+      CallToolResultSchema,
+    );
+    expect(JSON.parse(retrieveRes.content[0].text as string)).toHaveLength(1);
+
+    const purgeRes = await client.request(
+      {
+        method: "tools/call",
+        params: { name: "purge_deleted_memories", arguments: { id, is_global: true } },
+      },
+      CallToolResultSchema,
+    );
+    expect(purgeRes.isError).toBe(true);
+  });
+
+  test("dry_run lists the memories a removal would delete", async () => {
+    for (const data of ["Uses npm", "Uses npm scripts", "Uses pnpm"]) {
+      await client.request(
+        {
+          method: "tools/call",
+          params: {
+            name: "remember_memory",
+            arguments: { category: "tools", data, tags: [], is_global: false }
+          },
+        },
+        CallToolResultSchema,
+      );
+    }
+
+    const dryRunRes = await client.request(
+      {
+        method: "tools/call",
+        params: {
+          name: "remove_specific_memory",
+          arguments: { category: "tools", memory_content: "npm", is_global: false, dry_run: true }
+        },
+      },
+      CallToolResultSchema,
+    );
+    const preview = JSON.parse(dryRunRes.content[0].text as string);
+    expect(preview.dryRun).toBe(true);
+    expect(preview.count).toBe(3);
+    expect(preview.memories.map((memory: { data: string }) => memory.data)).toEqual([
+      "Uses npm",
+      "Uses npm scripts",
+      "Uses pnpm",
+    ]);
+
+    const categoryDryRunRes = await client.request(
+      {
+        method: "tools/call",
+        params: {
+          name: "remove_memory_category",
+          arguments: { category: "*", is_global: false, dry_run: true }
+        },
+      },
+      CallToolResultSchema,
+    );
+    expect(JSON.parse(categoryDryRunRes.content[0].text as string).count).toBe(3);
+
+    const retrieveRes = await client.request(
+      {
+        method: "tools/call",
+        params: { name: "retrieve_memories", arguments: { category: "tools", is_global: false } },
+      },
+      CallToolResultSchema,
+    );
+    expect(JSON.parse(retrieveRes.content[0].text as string)).toHaveLength(3);
+  });
+
+  test("multi-match removals need a confirmation token when required", async () => {
+    const confirmingServer = initializeServer(memoryStorage, {
+      instructions: 'Test instructions',
+      requireConfirmation: true,
+    });
+    const confirmingClient = new Client({ name: "test client", version: "1.0" });
+    const [confirmingClientTransport, confirmingServerTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([
+      confirmingServer.connect(confirmingServerTransport),
+      confirmingClient.connect(confirmingClientTransport),
+    ]);
+
+    for (const data of ["Uses npm", "Uses npm scripts"]) {
+      await confirmingClient.request(
+        {
+          method: "tools/call",
+          params: {
+            name: "remember_memory",
+            arguments: { category: "tools", data, tags: [], is_global: false }
+          },
+        },
+        CallToolResultSchema,
+      );
+    }
+    const removeArguments = { category: "tools", memory_content: "npm", is_global: false };
+
+    const pendingRes = await confirmingClient.request(
+      {
+        method: "tools/call",
+        params: { name: "remove_specific_memory", arguments: removeArguments },
+      },
+      CallToolResultSchema,
+    );
+    const pendingText = pendingRes.content[0].text as string;
+    expect(pendingText).toMatch(/^Confirmation required: this would remove 2 memories/);
+    const token = /confirm_token: (\S+)/.exec(pendingText)![1];
+
+    const wrongRes = await confirmingClient.request(
+      {
+        method: "tools/call",
+        params: {
+          name: "remove_memory_category",
+          arguments: { category: "tools", is_global: false, confirm_token: token }
+        },
+      },
+      CallToolResultSchema,
+    );
+    expect(wrongRes.isError).toBe(true);
+
+    const retryRes = await confirmingClient.request(
+      {
+        method: "tools/call",
+        params: { name: "remove_specific_memory", arguments: removeArguments },
+      },
+      CallToolResultSchema,
+    );
+    const retryToken = /confirm_token: (\S+)/.exec(retryRes.content[0].text as string)![1];
+
+    const confirmedRes = await confirmingClient.request(
+      {
+        method: "tools/call",
+        params: {
+          name: "remove_specific_memory",
+          arguments: { ...removeArguments, confirm_token: retryToken }
+        },
+      },
+      CallToolResultSchema,
+    );
+    expect(confirmedRes.content[0].text).toMatch(/^Removed 2 memories from category: tools/);
+    expect(await memoryStorage.retrieve("tools", false)).toEqual([]);
+
+    await confirmingClient.close();
+  });
+
+  test("clients supporting elicitation are asked to confirm removals", async () => {
+    const confirmingServer = initializeServer(memoryStorage, {
+      instructions: 'Test instructions',
+      requireConfirmation: true,
+    });
+    const confirmingClient = new Client(
+      { name: "test client", version: "1.0" },
+      { capabilities: { elicitation: {} } },
+    );
+    const answers: ("accept" | "decline")[] = ["decline", "accept"];
+    const messages: string[] = [];
+    confirmingClient.setRequestHandler(ElicitRequestSchema, request => {
+      messages.push(request.params.message);
+      return { action: answers.shift()! };
+    });
+    const [confirmingClientTransport, confirmingServerTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([
+      confirmingServer.connect(confirmingServerTransport),
+      confirmingClient.connect(confirmingClientTransport),
+    ]);
+
+    for (const data of ["Uses npm", "Uses npm scripts"]) {
+      await confirmingClient.request(
+        {
+          method: "tools/call",
+          params: {
+            name: "remember_memory",
+            arguments: { category: "tools", data, tags: [], is_global: false }
+          },
+        },
+        CallToolResultSchema,
+      );
+    }
+    const removeRequest = {
+      method: "tools/call",
+      params: {
+        name: "remove_specific_memory",
+        arguments: { category: "tools", memory_content: "npm", is_global: false },
+      },
+    };
+
+    const declinedRes = await confirmingClient.request(removeRequest, CallToolResultSchema);
+    expect(declinedRes.content[0].text).toBe("Not removed: the user declined the removal");
+    expect(await memoryStorage.retrieve("tools", false)).toHaveLength(2);
+
+    const acceptedRes = await confirmingClient.request(removeRequest, CallToolResultSchema);
+    expect(acceptedRes.content[0].text).toMatch(/^Removed 2 memories from category: tools/);
+    expect(await memoryStorage.retrieve("tools", false)).toEqual([]);
+    expect(messages[0]).toMatch(/^Remove 2 memories\?\n.*Uses npm/);
+
+    await confirmingClient.close();
+  });
+
+  test("snapshots roll memories back and the history shows the changes", async () => {
+    const storeRes = await client.request(
+      {
+        method: "tools/call",
+        params: {
+          name: "remember_memory",
+          arguments: { category: "project", data: "Deploys on Fridays", tags: [], is_global: false }
+        },
+      },
+      CallToolResultSchema,
+    );
+    const id = (storeRes.content[0].text as string).split("with id: ")[1];
+
+    const snapshotRes = await client.request(
+      {
+        method: "tools/call",
+        params: { name: "create_snapshot", arguments: { is_global: false, label: "Initial" } },
+      },
+      CallToolResultSchema,
+    );
+    const snapshotId = /with id: (\S+)/.exec(snapshotRes.content[0].text as string)![1];
+
+    await client.request(
+      {
+        method: "tools/call",
+        params: {
+          name: "update_memory",
+          arguments: { id, is_global: false, data: "Never deploys on Fridays" }
+        },
+      },
+      CallToolResultSchema,
+    );
+
+    const restoreRes = await client.request(
+      {
+        method: "tools/call",
+        params: { name: "restore_snapshot", arguments: { id: snapshotId, is_global: false } },
+      },
+      CallToolResultSchema,
+    );
+    expect(restoreRes.content[0].text).toMatch(
+      new RegExp(`^Restored snapshot with id: ${snapshotId}, 1 memory changed`)
+    );
+
+    const historyRes = await client.request(
+      {
+        method: "tools/call",
+        params: { name: "memory_history", arguments: { is_global: false, id } },
+      },
+      CallToolResultSchema,
+    );
+    const history = JSON.parse(historyRes.content[0].text as string);
+    expect(history.map((entry: { type: string; origin: string }) => [entry.type, entry.origin])).toEqual([
+      ["update", "restore_snapshot"],
+      ["update", "update_memory"],
+      ["create", "remember_memory"],
+    ]);
+    expect(history[0].after.data).toBe("Deploys on Fridays");
+
+    const listRes = await client.request(
+      {
+        method: "tools/call",
+        params: { name: "list_snapshots", arguments: { is_global: false } },
+      },
+      CallToolResultSchema,
+    );
+    expect(JSON.parse(listRes.content[0].text as string)).toHaveLength(2);
+  });
+
+  test("exported memories can be imported into the other scope", async () => {
+    await client.request(
+      {
+        method: "tools/call",
+        params: {
+          name: "remember_memory",
+          arguments: { category: "tools", data: "Uses pnpm", tags: ["node"], is_global: true }
+        },
+      },
+      CallToolResultSchema,
+    );
+
+    const exportRes = await client.request(
+      {
+        method: "tools/call",
+        params: { name: "export_memories", arguments: { is_global: true, format: "markdown" } },
+      },
+      CallToolResultSchema,
+    );
+    const exported = exportRes.content[0].text as string;
+    expect(exported).toContain("## tools");
+    expect(exported).toContain("- Uses pnpm `#node`");
+
+    const importRes = await client.request(
+      {
+        method: "tools/call",
+        params: {
+          name: "import_memories",
+          arguments: { is_global: false, format: "markdown", content: exported }
+        },
+      },
+      CallToolResultSchema,
+    );
+    expect(importRes.content[0].text).toBe("Imported 1 memory: 1 created, 0 updated, 0 skipped");
+
+    const invalidRes = await client.request(
+      {
+        method: "tools/call",
+        params: {
+          name: "import_memories",
+          arguments: { is_global: false, format: "csv", content: "category,data\ntools\n" }
+        },
+      },
+      CallToolResultSchema,
+    );
+    expect(invalidRes.isError).toBe(true);
+    expect(invalidRes.content[0].text).toBe("Error: import:2: Expected 2 fields, found 1");
+  });
+
+  test("similar_memories is offered when semantic search is enabled", async () => {
+    const semanticStorage = new MemoryStorage(
+      path.join(testDir, 'global'),
+      path.join(testDir, 'local'),
+      { embeddingProvider: new HashedNgramEmbeddingProvider() },
+    );
+    const semanticServer = initializeServer(semanticStorage, { instructions: 'Test instructions' });
+    const semanticClient = new Client({ name: "test client", version: "1.0" });
+    const [semanticClientTransport, semanticServerTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([
+      semanticServer.connect(semanticServerTransport),
+      semanticClient.connect(semanticClientTransport),
+    ]);
+
+    const toolsRes = await semanticClient.request(
+      { method: "tools/list", params: {} },
+      ListToolsResultSchema,
+    );
+    expect(toolsRes.tools.map(tool => tool.name)).toContain("similar_memories");
+
+    for (const data of ["Tests run with the vitest runners", "Deploys happen on Fridays"]) {
+      await semanticClient.request(
+        {
+          method: "tools/call",
+          params: {
+            name: "remember_memory",
+            arguments: { category: "workflow", data, tags: [], is_global: false }
+          },
+        },
+        CallToolResultSchema,
+      );
+    }
+
+    const similarRes = await semanticClient.request(
+      {
+        method: "tools/call",
+        params: { name: "similar_memories", arguments: { query: "preferred test runner", limit: 1 } },
+      },
+      CallToolResultSchema,
+    );
+    const results = JSON.parse(similarRes.content[0].text as string);
+    expect(results).toHaveLength(1);
+    expect(results[0]).toMatchObject({ data: "Tests run with the vitest runners", scope: "local" });
+    expect(results[0].score).toBeGreaterThan(0);
+
+    await semanticClient.close();
+  });
+
+  test("retrieve_memories reads all scopes when no scope is given", async () => {
+    for (const is_global of [true, false]) {
+      await client.request(
+        {
+          method: "tools/call",
+          params: {
+            name: "remember_memory",
+            arguments: { category: "style", data: `Style from ${is_global ? "global" : "local"}`, tags: [], is_global }
+          },
+        },
+        CallToolResultSchema,
+      );
+    }
+
+    const allRes = await client.request(
+      {
+        method: "tools/call",
+        params: { name: "retrieve_memories", arguments: { category: "style" } },
+      },
+      CallToolResultSchema,
+    );
+    const all = JSON.parse(allRes.content[0].text as string);
+    expect(all.map((memory: { data: string; scope: string }) => [memory.data, memory.scope])).toEqual([
+      ["Style from local", "local"],
+      ["Style from global", "global"],
+    ]);
+
+    const globalRes = await client.request(
+      {
+        method: "tools/call",
+        params: { name: "retrieve_memories", arguments: { category: "style", is_global: true } },
+      },
+      CallToolResultSchema,
+    );
+    expect(JSON.parse(globalRes.content[0].text as string)).toHaveLength(1);
+
+    const searchRes = await client.request(
+      {
+        method: "tools/call",
+        params: { name: "search_memories", arguments: { query: "style", scope: "both" } },
+      },
+      CallToolResultSchema,
+    );
+    expect(JSON.parse(searchRes.content[0].text as string)).toHaveLength(2);
+  });
+
+  test("tools select named scopes with the scope parameter", async () => {
+    const teamStorage = new MemoryStorage(
+      path.join(testDir, 'global'),
+      path.join(testDir, 'local'),
+      { scopes: { team: path.join(testDir, 'team') } },
+    );
+    const teamServer = initializeServer(teamStorage, { instructions: 'Test instructions' });
+    const teamClient = new Client({ name: "test client", version: "1.0" });
+    const [teamClientTransport, teamServerTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([
+      teamServer.connect(teamServerTransport),
+      teamClient.connect(teamClientTransport),
+    ]);
+
+    const rememberRes = await teamClient.request(
+      {
+        method: "tools/call",
+        params: {
+          name: "remember_memory",
+          arguments: { category: "process", data: "Reviews need two approvals", scope: "team" }
+        },
+      },
+      CallToolResultSchema,
+    );
+    expect(rememberRes.isError).toBeFalsy();
+
+    const teamRes = await teamClient.request(
+      {
+        method: "tools/call",
+        params: { name: "retrieve_memories", arguments: { category: "*", scope: "team" } },
+      },
+      CallToolResultSchema,
+    );
+    expect(JSON.parse(teamRes.content[0].text as string)).toMatchObject([
+      { data: "Reviews need two approvals", scope: "team", isGlobal: false },
+    ]);
+
+    const missingRes = await teamClient.request(
+      {
+        method: "tools/call",
+        params: { name: "list_snapshots", arguments: {} },
+      },
+      CallToolResultSchema,
+    );
+    expect(missingRes.isError).toBe(true);
+    expect(missingRes.content[0].text).toBe("Error: Either is_global or scope is required");
+
+    await teamClient.close();
+  });
+
+  test("remember_memory accepts a ttl or an expiry time", async () => {
+    const ttlRes = await client.request(
+      {
+        method: "tools/call",
+        params: {
+          name: "remember_memory",
+          arguments: { category: "work", data: "Debugging PR 123", is_global: false, ttl: "12h" }
+        },
+      },
+      CallToolResultSchema,
+    );
+    expect(ttlRes.isError).toBeFalsy();
+    expect(ttlRes.content[0].text).toMatch(/, expiring at \d{4}-\d{2}-\d{2}T/);
+
+    const pastRes = await client.request(
+      {
+        method: "tools/call",
+        params: {
+          name: "remember_memory",
+          arguments: {
+            category: "work",
+            data: "Debugging PR 122",
+            is_global: false,
+            expires_at: "2000-01-01T00:00:00+09:00",
+          }
+        },
+      },
+      CallToolResultSchema,
+    );
+    expect(pastRes.isError).toBe(true);
+    expect(pastRes.content[0].text).toBe("Error: The expiry time must be in the future");
+
+    const memories = await memoryStorage.retrieve("work", false);
+    expect(memories).toHaveLength(1);
+    expect(memories[0].expiresAt).toBeDefined();
+  });
+
+  test("memory_stats reports usage and exceeded quotas return structured errors", async () => {
+    const limitedStorage = new MemoryStorage(
+      path.join(testDir, 'global'),
+      path.join(testDir, 'local'),
+      { quotas: { maxDataBytes: 16, maxCategoriesPerScope: 5 } },
+    );
+    const limitedServer = initializeServer(limitedStorage, { instructions: 'Test instructions' });
+    const limitedClient = new Client({ name: "test client", version: "1.0" });
+    const [limitedClientTransport, limitedServerTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([
+      limitedServer.connect(limitedServerTransport),
+      limitedClient.connect(limitedClientTransport),
+    ]);
+
+    const tooLargeRes = await limitedClient.request(
+      {
+        method: "tools/call",
+        params: {
+          name: "remember_memory",
+          arguments: { category: "tools", data: "Uses pnpm workspaces", is_global: false }
+        },
+      },
+      CallToolResultSchema,
+    );
+    expect(tooLargeRes.isError).toBe(true);
+    expect(tooLargeRes.content[0].text).toBe(
+      "Error: Memory data is 20 bytes, over the limit of 16 bytes per memory"
+    );
+    expect(JSON.parse(tooLargeRes.content[1].text as string)).toEqual({
+      error: "quota_exceeded",
+      limit: "maxDataBytes",
+      scope: "local",
+      max: 16,
+      actual: 20,
+    });
+
+    await limitedStorage.remember('tools', 'Uses pnpm', ['node'], false);
+    const statsRes = await limitedClient.request(
+      {
+        method: "tools/call",
+        params: { name: "memory_stats", arguments: { scope: "local" } },
+      },
+      CallToolResultSchema,
+    );
+    expect(JSON.parse(statsRes.content[0].text as string)).toEqual({
+      quotas: { maxDataBytes: 16, maxCategoriesPerScope: 5 },
+      scopes: [
+        {
+          scope: "local",
+          memories: 1,
+          categories: 1,
+          bytes: 13,
+          largestDataBytes: 9,
+          mostTags: 1,
+          overQuota: [],
+        },
+      ],
+    });
+
+    await limitedClient.close();
+  });
+
+  test("remember_memory merges, rejects or allows duplicates and names the existing memory", async () => {
+    const remember = (data: string, args: Record<string, unknown> = {}) =>
+      client.request(
+        {
+          method: "tools/call",
+          params: {
+            name: "remember_memory",
+            arguments: { category: "tools", data, is_global: false, ...args }
+          },
+        },
+        CallToolResultSchema,
+      );
+    const original = await memoryStorage.remember("tools", "Uses pnpm workspaces", ["node"], false);
+
+    const mergedRes = await remember("uses pnpm workspaces.", {
+      tags: ["monorepo"],
+      on_duplicate: "merge",
+    });
+    expect(mergedRes.isError).toBeFalsy();
+    expect(mergedRes.content[0].text).toBe(
+      `Not stored, the memory duplicates memory ${original.id} (similarity 1.00): Uses pnpm workspaces\nMerged into it, its tags are now: node, monorepo`
+    );
+
+    const rejectedRes = await remember("Uses pnpm workspace", { on_duplicate: "reject" });
+    expect(rejectedRes.isError).toBe(true);
+    expect(JSON.parse(rejectedRes.content[1].text as string)).toMatchObject({
+      error: "duplicate",
+      id: original.id,
+      data: "Uses pnpm workspaces",
+    });
+
+    const nearRes = await remember("Uses pnpm workspace", { on_duplicate: "merge" });
+    expect(nearRes.content[0].text).toMatch(
+      new RegExp(`\\nIt nearly duplicates memory ${original.id} \\(similarity 0\\.\\d\\d\\): Uses pnpm workspaces$`)
+    );
+
+    // Duplicates are stored by default
+    const allowedRes = await remember("Uses pnpm workspaces");
+    expect(allowedRes.content[0].text).toContain(
+      `\nIt duplicates memory ${original.id} (similarity 1.00): Uses pnpm workspaces`
+    );
+    expect(await memoryStorage.retrieve("tools", false)).toMatchObject([
+      { id: original.id, tags: ["node", "monorepo"] },
+      { data: "Uses pnpm workspace", tags: [] },
+      { data: "Uses pnpm workspaces", tags: [] },
+    ]);
   });
 });
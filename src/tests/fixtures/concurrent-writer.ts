@@ -0,0 +1,14 @@
+// Child process for the concurrency tests: stores memories in one shared category and
+// rewrites every other one, racing the other writers.
+// Usage: concurrent-writer.ts <global dir> <local dir> <writer name> <count>
+import { MemoryStorage } from '../../lib/memory-storage.js';
+
+const [globalDir, localDir, writer, count] = process.argv.slice(2);
+const memoryStorage = new MemoryStorage(globalDir, localDir);
+
+for (let index = 0; index < Number(count); index++) {
+  const memory = await memoryStorage.remember('shared', `${writer}-${index}`, [writer], true);
+  if (index % 2 === 0) {
+    await memoryStorage.update(memory.id, true, { data: `${writer}-${index}-updated` });
+  }
+}
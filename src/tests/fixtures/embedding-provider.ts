@@ -0,0 +1,8 @@
+// External embedding provider for the semantic search tests: one dimension per known word
+const WORDS = ['vitest', 'test', 'runner', 'deploy'];
+
+export default () => ({
+  id: 'fixture-words',
+  embed: async (texts: string[]) =>
+    texts.map(text => WORDS.map(word => (text.toLowerCase().includes(word) ? 1 : 0))),
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import { migrateLegacyStorage, parseLegacyCategoryFile } from '../lib/legacy-migration.js';
+import { parseCategoryFile, serializeCategoryFile } from '../lib/memory-format.js';
+import { createTempDir, removeTempDir } from './test-utils.js';
+
+describe('Legacy Storage Migration', () => {
+  let tempDir: string;
+  const modifiedAt = new Date('2025-01-01T00:00:00.000Z');
+
+  beforeEach(() => {
+    tempDir = createTempDir();
+  });
+
+  afterEach(() => {
+    removeTempDir(tempDir);
+  });
+
+  it('parses escaped and real newlines', () => {
+    // Arrange
+    const escaped = '# tag1\\nEscaped memory\\n\\n';
+    const handWritten = '# tag2 tag3\nFirst line\nSecond line\n\nUntagged\n';
+
+    // Act
+    const fromEscaped = parseLegacyCategoryFile(escaped, modifiedAt);
+    const fromHandWritten = parseLegacyCategoryFile(handWritten, modifiedAt);
+
+    // Assert
+    expect(fromEscaped).toMatchObject([{ data: 'Escaped memory', tags: ['tag1'] }]);
+    expect(fromHandWritten).toMatchObject([
+      { data: 'First line\nSecond line', tags: ['tag2', 'tag3'] },
+      { data: 'Untagged', tags: [] },
+    ]);
+    expect(fromHandWritten[0].createdAt).toBe(modifiedAt.toISOString());
+  });
+
+  it('keeps IDs and timestamps from metadata lines', () => {
+    // Arrange
+    const content =
+      '@id:abc created:2025-02-01T00:00:00.000Z updated:2025-03-01T00:00:00.000Z\\n# tag1\\nMemory\\n\\n';
+
+    // Act
+    const memories = parseLegacyCategoryFile(content, modifiedAt);
+
+    // Assert
+    expect(memories).toEqual([
+      {
+        id: 'abc',
+        data: 'Memory',
+        tags: ['tag1'],
+        createdAt: '2025-02-01T00:00:00.000Z',
+        updatedAt: '2025-03-01T00:00:00.000Z',
+      },
+    ]);
+  });
+
+  it('merges legacy entries into an existing category file', async () => {
+    // Arrange
+    const existing = {
+      id: 'existing',
+      data: 'Already migrated',
+      tags: [],
+      createdAt: modifiedAt.toISOString(),
+      updatedAt: modifiedAt.toISOString(),
+    };
+    fs.writeFileSync(
+      path.join(tempDir, 'development.jsonl'),
+      serializeCategoryFile('development', [existing])
+    );
+    fs.writeFileSync(path.join(tempDir, 'development.txt'), '# tools\nUses pnpm\n');
+
+    // Act
+    const migrated = await migrateLegacyStorage(tempDir);
+    const again = await migrateLegacyStorage(tempDir);
+
+    // Assert
+    expect(migrated).toEqual(['development']);
+    expect(again).toEqual([]);
+    const { memories } = parseCategoryFile(
+      fs.readFileSync(path.join(tempDir, 'development.jsonl'), 'utf-8'),
+      'development.jsonl'
+    );
+    expect(memories.map(memory => memory.data)).toEqual(['Already migrated', 'Uses pnpm']);
+    expect(fs.existsSync(path.join(tempDir, 'development.txt.migrated'))).toBe(true);
+  });
+});
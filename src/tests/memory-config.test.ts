@@ -128,6 +128,163 @@ describe('Memory Configuration', () => {
     expect(config.enablePersistence).toBe(false);
   });
 
+  it('reads named scopes from the command line', async () => {
+    const { Command } = await import('commander');
+    const { parseNamedScope } = await import('../memory-config.js');
+    vi.mocked(Command).mockImplementation(() => {
+      return {
+        name: vi.fn().mockReturnThis(),
+        description: vi.fn().mockReturnThis(),
+        version: vi.fn().mockReturnThis(),
+        option: vi.fn().mockReturnThis(),
+        parse: vi.fn(),
+        opts: vi.fn().mockReturnValue({
+          namedScope: parseNamedScope('team=/shared/team', parseNamedScope('org=/shared/org')),
+        }),
+      } as unknown as InstanceType<typeof Command>;
+    });
+
+    // Import module
+    const { getMemoryConfig } = await import('../memory-config.js');
+
+    // Test
+    const config = getMemoryConfig();
+
+    // Verify
+    expect(config.namedScopes).toEqual({ org: '/shared/org', team: '/shared/team' });
+  });
+
+  it('discovers the local store in a parent directory or at the repository root', async () => {
+    // Import module
+    const { discoverLocalStorage } = await import('../memory-config.js');
+    const fs = await import('fs');
+
+    // Test
+    vi.mocked(fs.existsSync).mockImplementation(file => file === '/work/repo/.git');
+    const repositoryRoot = discoverLocalStorage('/work/repo/packages/app');
+    vi.mocked(fs.existsSync).mockImplementation(
+      file => file === '/work/repo/.git' || file === '/work/repo/packages/.mcp-memory'
+    );
+    const nearest = discoverLocalStorage('/work/repo/packages/app');
+    vi.mocked(fs.existsSync).mockReturnValue(false);
+    const fallback = discoverLocalStorage('/work/scratch');
+
+    // Verify
+    expect(repositoryRoot).toBe('/work/repo/.mcp-memory');
+    expect(nearest).toBe('/work/repo/packages/.mcp-memory');
+    expect(fallback).toBe('/work/scratch/.mcp-memory');
+  });
+
+  it('layers flags over environment variables over the project and global config files', async () => {
+    const { Command } = await import('commander');
+    vi.mocked(Command).mockImplementation(() => {
+      return {
+        name: vi.fn().mockReturnThis(),
+        description: vi.fn().mockReturnThis(),
+        version: vi.fn().mockReturnThis(),
+        option: vi.fn().mockReturnThis(),
+        parse: vi.fn(),
+        opts: vi.fn().mockReturnValue({ transport: 'http' }),
+      } as unknown as InstanceType<typeof Command>;
+    });
+    const fs = await import('fs');
+    const files: Record<string, object> = {
+      '/home/user/.config/mcp-memory/mcp-memory.config.json': {
+        port: 4000,
+        trashRetentionDays: 7,
+        namedScopes: { org: 'shared/org' },
+      },
+      [path.join(process.cwd(), 'mcp-memory.config.json')]: {
+        trashRetentionDays: 14,
+        logging: { level: 'debug' },
+      },
+    };
+    vi.mocked(fs.existsSync).mockImplementation(file => String(file) in files);
+    vi.mocked(fs.readFileSync).mockImplementation(file => JSON.stringify(files[String(file)]));
+    process.env.MCP_MEMORY_TRANSPORT = 'sse';
+    process.env.MCP_MEMORY_PORT = '6000';
+
+    // Import module
+    const { getMemoryConfig } = await import('../memory-config.js');
+
+    // Test
+    const config = getMemoryConfig();
+
+    // Verify
+    expect(config.transport).toBe('http');
+    expect(config.port).toBe(6000);
+    expect(config.logLevel).toBe('debug');
+    expect(config.trashRetentionDays).toBe(14);
+    expect(config.namedScopes).toEqual({ org: '/home/user/.config/mcp-memory/shared/org' });
+  });
+
+  it.each([
+    ['localStorage', { localStorage: '/tmp/elsewhere' }],
+    ['namedScopes', { namedScopes: { team: '/tmp/team' } }],
+    ['persistence', { persistence: false }],
+    ['logging.file', { logging: { file: '/tmp/server.log' } }],
+  ])('rejects %s in a project config file', async (key, projectSettings) => {
+    // Import module
+    const { loadConfigSettings } = await import('../memory-config.js');
+    const fs = await import('fs');
+    const projectFile = path.join(process.cwd(), 'mcp-memory.config.json');
+    vi.mocked(fs.existsSync).mockImplementation(file => String(file) === projectFile);
+    vi.mocked(fs.readFileSync).mockImplementation(() => JSON.stringify(projectSettings));
+
+    // Test & Verify
+    expect(() => loadConfigSettings()).toThrow(
+      `Invalid config file ${projectFile}: ${key}: Can only be set in the global config file, an environment variable or a flag`
+    );
+  });
+
+  it('rejects settings that load code or open the network in a project config file', async () => {
+    // Import module
+    const { loadConfigSettings, readConfigFile } = await import('../memory-config.js');
+    const fs = await import('fs');
+    const projectFile = path.join(process.cwd(), 'mcp-memory.config.json');
+    const files: Record<string, object> = {
+      [projectFile]: { embeddingProvider: './provider.js' },
+      '/home/user/.config/mcp-memory/mcp-memory.config.json': { host: '0.0.0.0' },
+    };
+    vi.mocked(fs.existsSync).mockImplementation(file => String(file) in files);
+    vi.mocked(fs.readFileSync).mockImplementation(file => JSON.stringify(files[String(file)]));
+
+    // Test & Verify
+    expect(() => loadConfigSettings()).toThrow(
+      `Invalid config file ${projectFile}: embeddingProvider: Can only be set in the global config file, an environment variable or a flag`
+    );
+    expect(readConfigFile('/home/user/.config/mcp-memory/mcp-memory.config.json')).toEqual({
+      host: '0.0.0.0',
+    });
+  });
+
+  it('names the offending key of invalid settings', async () => {
+    // Import module
+    const { readConfigFile, readEnvSettings } = await import('../memory-config.js');
+    const fs = await import('fs');
+
+    // Test
+    vi.mocked(fs.existsSync).mockReturnValue(true);
+    vi.mocked(fs.readFileSync).mockReturnValueOnce('{"port": 70000}');
+    vi.mocked(fs.readFileSync).mockReturnValueOnce('{"prot": 3000}');
+
+    // Verify
+    expect(() => readConfigFile('/work/mcp-memory.config.json')).toThrow(
+      'Invalid config file /work/mcp-memory.config.json: port: Number must be less than or equal to 65535'
+    );
+    expect(() => readConfigFile('/work/mcp-memory.config.json')).toThrow(
+      "Unrecognized key(s) in object: 'prot'"
+    );
+    expect(() => readEnvSettings({ MCP_MEMORY_PERSISTENCE: 'maybe' })).toThrow(
+      'Invalid environment: MCP_MEMORY_PERSISTENCE: Expected boolean, received string'
+    );
+    for (const namedScopes of ['team', 'team=/a,org', 'team=']) {
+      expect(() => readEnvSettings({ MCP_MEMORY_NAMED_SCOPES: namedScopes })).toThrow(
+        'Invalid environment: MCP_MEMORY_NAMED_SCOPES: Expected object, received string'
+      );
+    }
+  });
+
   it('validates paths under home directory', async () => {
     // Import module
     const { isUnderHome } = await import('../memory-config.js');
@@ -166,6 +323,7 @@ describe('Memory Configuration', () => {
       const mockFs = {
         existsSync: vi.fn().mockReturnValue(false),
         mkdirSync: vi.fn(),
+        readFileSync: vi.fn(),
       };
       return {
         ...mockFs,
@@ -202,6 +360,7 @@ describe('Memory Configuration', () => {
       const mockFs = {
         existsSync: vi.fn(),
         mkdirSync: vi.fn(),
+        readFileSync: vi.fn(),
       };
       return {
         ...mockFs,
@@ -226,4 +385,24 @@ describe('Memory Configuration', () => {
     expect(fs.existsSync).not.toHaveBeenCalled();
     expect(fs.mkdirSync).not.toHaveBeenCalled();
   });
+
+  it('selects the storage backend from the persistence setting', async () => {
+    // Import module
+    const { createStorageBackend } = await import('../memory-config.js');
+    const { FileBackend } = await import('../lib/file-backend.js');
+    const { InMemoryBackend } = await import('../lib/in-memory-backend.js');
+
+    // Test
+    const config = {
+      globalStorageLocation: '/home/user/.config/mcp-memory',
+      localStorageLocation: '/home/user/project/.mcp-memory',
+      enablePersistence: true,
+    };
+
+    // Verify
+    expect(createStorageBackend(config)).toBeInstanceOf(FileBackend);
+    expect(createStorageBackend({ ...config, enablePersistence: false })).toBeInstanceOf(
+      InMemoryBackend
+    );
+  });
 });
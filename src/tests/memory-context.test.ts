@@ -0,0 +1,58 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { renderMemoryContext } from '../lib/memory-context.js';
+import { MemoryStorage } from '../lib/memory-storage.js';
+import { createTempDir, initTestMemoryStorage, removeTempDir } from './test-utils.js';
+
+describe('Memory Context', () => {
+  let tempDir: string;
+  let memoryStorage: MemoryStorage;
+
+  beforeEach(() => {
+    tempDir = createTempDir();
+    const { globalDir, localDir } = initTestMemoryStorage(tempDir);
+    memoryStorage = new MemoryStorage(globalDir, localDir);
+  });
+
+  afterEach(() => {
+    removeTempDir(tempDir);
+  });
+
+  it('renders memories grouped by scope and category', async () => {
+    // Arrange
+    const global = await memoryStorage.remember('preferences', 'Prefers tabs', ['style'], true);
+    const local = await memoryStorage.remember('project', 'Uses vitest', [], false);
+
+    // Act
+    const context = await renderMemoryContext(memoryStorage);
+
+    // Assert
+    expect(context).toBe(
+      [
+        'Global Memories:',
+        '',
+        'Category: preferences',
+        `- [${global.id}] Prefers tabs (tags: style)`,
+        '',
+        'Local Memories:',
+        '',
+        'Category: project',
+        `- [${local.id}] Uses vitest`,
+      ].join('\n')
+    );
+  });
+
+  it('keeps only the most recently updated memories when capped', async () => {
+    // Arrange
+    const older = await memoryStorage.remember('notes', 'Older', [], true);
+    await new Promise(resolve => setTimeout(resolve, 5));
+    await memoryStorage.remember('notes', 'Newer', [], true);
+
+    // Act
+    const context = await renderMemoryContext(memoryStorage, { maxMemories: 1 });
+
+    // Assert
+    expect(context).toContain('Newer');
+    expect(context).not.toContain(older.id);
+    expect(context).toContain('1 older memory is not shown');
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { DuplicateMemoryError, normalizeText, textSimilarity } from '../lib/memory-duplicates.js';
+import { MemoryChangeEvent, MemoryStorage } from '../lib/memory-storage.js';
+import { createTempDir, initTestMemoryStorage, removeTempDir } from './test-utils.js';
+
+describe('Memory Duplicates', () => {
+  let tempDir: string;
+  let memoryStorage: MemoryStorage;
+
+  beforeEach(() => {
+    tempDir = createTempDir();
+    const { globalDir, localDir } = initTestMemoryStorage(tempDir);
+    memoryStorage = new MemoryStorage(globalDir, localDir);
+  });
+
+  afterEach(() => {
+    removeTempDir(tempDir);
+  });
+
+  it('compares normalized text', () => {
+    expect(normalizeText('  Uses PNPM,  not npm! ')).toBe('uses pnpm not npm');
+    expect(textSimilarity('Uses pnpm', 'uses pnpm.')).toBe(1);
+    expect(
+      textSimilarity('The user prefers tabs for indentation', 'User prefers tabs for indentation')
+    ).toBeGreaterThan(0.9);
+    expect(textSimilarity('Deploys happen on Fridays', 'Deploys happen on Mondays')).toBeLessThan(
+      0.9
+    );
+  });
+
+  it('merges the tags of a duplicate into the existing memory', async () => {
+    // Arrange
+    const existing = await memoryStorage.remember('tools', 'Uses pnpm', ['node'], false);
+    const events: MemoryChangeEvent[] = [];
+    memoryStorage.on('change', event => events.push(event));
+
+    // Act
+    const merged = await memoryStorage.rememberChecked('tools', 'uses PNPM', ['pnpm'], false, {
+      onDuplicate: 'merge',
+    });
+    const unchanged = await memoryStorage.rememberChecked('tools', 'Uses pnpm.', ['node'], false, {
+      onDuplicate: 'merge',
+    });
+
+    // Assert
+    expect(merged).toMatchObject({
+      action: 'merged',
+      memory: { id: existing.id, data: 'Uses pnpm', tags: ['node', 'pnpm'] },
+      duplicate: { id: existing.id, scope: 'local', category: 'tools', similarity: 1 },
+    });
+    expect(unchanged.action).toBe('merged');
+    expect(events).toEqual([
+      { type: 'update', scope: 'local', category: 'tools', ids: [existing.id] },
+    ]);
+    expect(await memoryStorage.retrieve('tools', false)).toMatchObject([
+      { id: existing.id, tags: ['node', 'pnpm'] },
+    ]);
+  });
+
+  it('stores a near duplicate instead of merging it, as it may state a different fact', async () => {
+    // Arrange
+    const existing = await memoryStorage.remember(
+      'tools',
+      'The CI builds and tests every package on Node 18',
+      [],
+      false
+    );
+
+    // Act
+    const result = await memoryStorage.rememberChecked(
+      'tools',
+      'The CI builds and tests every package on Node 20',
+      ['ci'],
+      false,
+      { onDuplicate: 'merge' }
+    );
+
+    // Assert
+    expect(result.action).toBe('created');
+    expect(result.duplicate?.id).toBe(existing.id);
+    expect(result.duplicate?.similarity).toBeLessThan(1);
+    expect(await memoryStorage.retrieve('tools', false)).toMatchObject([
+      { data: 'The CI builds and tests every package on Node 18', tags: [] },
+      { data: 'The CI builds and tests every package on Node 20', tags: ['ci'] },
+    ]);
+  });
+
+  it('rejects or allows near duplicates within the same category and scope', async () => {
+    // Arrange
+    const existing = await memoryStorage.remember(
+      'style',
+      'The user prefers tabs for indentation',
+      [],
+      false
+    );
+
+    // Act
+    const allowed = await memoryStorage.rememberChecked(
+      'style',
+      'User prefers tabs for indentation',
+      [],
+      false
+    );
+    const otherCategory = await memoryStorage.rememberChecked(
+      'tools',
+      'The user prefers tabs for indentation',
+      [],
+      false,
+      { onDuplicate: 'reject' }
+    );
+
+    // Assert
+    await expect(
+      memoryStorage.remember('style', 'the user prefers tabs for indentation', [], false, {
+        onDuplicate: 'reject',
+      })
+    ).rejects.toThrow(DuplicateMemoryError);
+    await expect(
+      memoryStorage.remember('style', 'The user prefers tabs for indentation', [], true, {
+        onDuplicate: 'reject',
+      })
+    ).resolves.toMatchObject({ scope: 'global' });
+    expect(allowed.action).toBe('created');
+    expect(allowed.duplicate?.id).toBe(existing.id);
+    expect(allowed.duplicate?.similarity).toBeGreaterThan(0.9);
+    expect(otherCategory.duplicate).toBeUndefined();
+    expect(await memoryStorage.retrieve('style', false)).toHaveLength(2);
+  });
+});
@@ -0,0 +1,161 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { EXCHANGE_FORMATS, exportMemories, parseImport } from '../lib/memory-exchange.js';
+import { MemoryStorage } from '../lib/memory-storage.js';
+import { createTempDir, initTestMemoryStorage, removeTempDir } from './test-utils.js';
+
+describe('Memory Exchange', () => {
+  let tempDir: string;
+  let memoryStorage: MemoryStorage;
+
+  beforeEach(() => {
+    tempDir = createTempDir();
+    const { globalDir, localDir } = initTestMemoryStorage(tempDir);
+    memoryStorage = new MemoryStorage(globalDir, localDir);
+  });
+
+  afterEach(() => {
+    removeTempDir(tempDir);
+  });
+
+  it.each(EXCHANGE_FORMATS)('round-trips memories through %s', async format => {
+    // Arrange
+    await memoryStorage.remember('preferences', 'Prefers tabs, not "spaces"', ['style'], true);
+    await memoryStorage.remember('preferences', 'First line\nSecond line', [], true);
+    await memoryStorage.remember('tools', 'Uses pnpm', ['node', 'pkg'], true);
+    const memories = await memoryStorage.retrieveAll(true);
+
+    // Act
+    const records = parseImport(exportMemories(memories, format), format);
+
+    // Assert
+    expect(records).toEqual(
+      memories.map(memory => ({
+        id: memory.id,
+        category: memory.category,
+        data: memory.data,
+        tags: memory.tags,
+        createdAt: memory.createdAt,
+        updatedAt: memory.updatedAt,
+      }))
+    );
+  });
+
+  it.each(EXCHANGE_FORMATS)('round-trips awkward tags and data through %s', async format => {
+    // Arrange
+    await memoryStorage.remember(
+      'tools',
+      'Run `pnpm build` <!-- not metadata --> in C:\\repo\\ `#ci`',
+      ['build tool', 'a`b', 'x;y', 'c,d', '50%', '100%25', 'back\\slash', '<!--', 'ツール　箱'],
+      true
+    );
+    await memoryStorage.remember('tools', 'Ends with a tag-like `#label`', [], true);
+    const memories = await memoryStorage.retrieveAll(true);
+
+    // Act
+    const records = parseImport(exportMemories(memories, format), format);
+
+    // Assert
+    expect(records.map(({ data, tags }) => ({ data, tags }))).toEqual(
+      memories.map(({ data, tags }) => ({ data, tags }))
+    );
+  });
+
+  it.each([
+    ['json', 'Windows\r\nline\rbreaks'],
+    ['csv', 'Windows\r\nline\rbreaks'],
+    // Markdown keeps the line breaks, not the carriage returns
+    ['markdown', 'Windows\nline\nbreaks'],
+  ] as const)('round-trips carriage returns through %s', async (format, expected) => {
+    // Arrange
+    const memory = await memoryStorage.remember('tools', 'Windows\r\nline\rbreaks', ['crlf'], true);
+
+    // Act
+    const records = parseImport(exportMemories([memory], format), format);
+
+    // Assert
+    expect(records).toMatchObject([{ category: 'tools', data: expected, tags: ['crlf'] }]);
+  });
+
+  it('renders categories as headings and tags as inline labels in Markdown', async () => {
+    // Arrange
+    const memory = await memoryStorage.remember('tools', 'Uses pnpm', ['node'], false);
+
+    // Act
+    const markdown = exportMemories([memory], 'markdown');
+
+    // Assert
+    expect(markdown).toContain('## tools\n');
+    expect(markdown).toContain(`- Uses pnpm \`#node\` <!-- id: ${memory.id},`);
+  });
+
+  it('parses hand-written Markdown without IDs or timestamps', () => {
+    // Act
+    const records = parseImport('## Tools\n\n- Uses pnpm `#node`\n- Uses vitest\n', 'markdown');
+
+    // Assert
+    expect(records).toEqual([
+      { category: 'tools', data: 'Uses pnpm', tags: ['node'] },
+      { category: 'tools', data: 'Uses vitest', tags: [] },
+    ]);
+  });
+
+  it.each([
+    ['json', '[\n  {"category": "a", "data": "x"},\n  {"category": "a"}\n]', 'notes.json:3: data'],
+    [
+      'json',
+      '[\n  {"category": "a", "data": "x"},\n  {"category": }\n]',
+      'notes.json:3: Invalid JSON',
+    ],
+    ['markdown', '## a\n\n- x\nnot a list item\n', 'notes.json:4:'],
+    ['markdown', '- x\n', 'notes.json:1: Memory outside'],
+    ['csv', 'category,data\na,x\nb\n', 'notes.json:3: Expected 2 fields, found 1'],
+    ['csv', 'category,data\na,"x\ny"\n"*",z\n', 'notes.json:4: category'],
+  ] as const)('reports the line of invalid %s records', (format, content, message) => {
+    // Act & Assert
+    expect(() => parseImport(content, format, 'notes.json')).toThrow(message);
+  });
+
+  it('skips, overwrites or keeps both copies of existing memories', async () => {
+    // Arrange
+    const existing = await memoryStorage.remember('tools', 'Uses pnpm', [], false);
+    const records = [
+      { id: existing.id, category: 'tools', data: 'Uses pnpm 9', tags: ['node'] },
+      { category: 'tools', data: 'Uses vitest', tags: [] },
+    ];
+
+    // Act
+    const skipped = await memoryStorage.importMemories(records, false, 'skip');
+    const overwritten = await memoryStorage.importMemories(records, false, 'overwrite');
+    const keptBoth = await memoryStorage.importMemories(records, false, 'keep_both');
+
+    // Assert
+    expect(skipped).toEqual({ created: 1, updated: 0, skipped: 1 });
+    expect(overwritten).toEqual({ created: 0, updated: 2, skipped: 0 });
+    expect(keptBoth).toEqual({ created: 2, updated: 0, skipped: 0 });
+
+    const memories = await memoryStorage.retrieve('tools', false);
+    expect(memories.map(memory => memory.data)).toEqual([
+      'Uses pnpm 9',
+      'Uses vitest',
+      'Uses pnpm 9',
+      'Uses vitest',
+    ]);
+    expect(new Set(memories.map(memory => memory.id)).size).toBe(4);
+    expect(memories[0]).toMatchObject({ id: existing.id, tags: ['node'] });
+  });
+
+  it('records imported memories in the history', async () => {
+    // Act
+    await memoryStorage.importMemories(
+      [{ category: 'tools', data: 'Uses pnpm', tags: [] }],
+      true,
+      'skip',
+      { origin: 'import_memories' }
+    );
+
+    // Assert
+    const history = await memoryStorage.history(true);
+    expect(history).toHaveLength(1);
+    expect(history[0]).toMatchObject({ type: 'create', origin: 'import_memories' });
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { EXCHANGE_FORMATS, exportMemories, parseImport } from '../lib/memory-exchange.js';
+import { parseTtl } from '../lib/memory-expiry.js';
+import { renderMemoryContext } from '../lib/memory-context.js';
+import { MemoryChangeEvent, MemoryStorage } from '../lib/memory-storage.js';
+import { createTempDir, initTestMemoryStorage, removeTempDir } from './test-utils.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('Memory Expiry', () => {
+  let tempDir: string;
+  let memoryStorage: MemoryStorage;
+  let now: Date;
+
+  // Move the fake clock forward
+  const advance = (ms: number) => {
+    now = new Date(now.getTime() + ms);
+  };
+
+  beforeEach(() => {
+    tempDir = createTempDir();
+    const { globalDir, localDir } = initTestMemoryStorage(tempDir);
+    now = new Date('2025-06-01T09:00:00.000Z');
+    memoryStorage = new MemoryStorage(globalDir, localDir, { clock: () => now });
+  });
+
+  afterEach(() => {
+    removeTempDir(tempDir);
+  });
+
+  it('parses a time to live with its unit', () => {
+    expect(parseTtl('90s')).toBe(90 * 1000);
+    expect(parseTtl('12h')).toBe(12 * HOUR_MS);
+    expect(parseTtl(' 2W ')).toBe(14 * 24 * HOUR_MS);
+    expect(() => parseTtl('0d')).toThrow('Invalid ttl "0d"');
+    expect(() => parseTtl('soon')).toThrow('Invalid ttl "soon"');
+  });
+
+  it('leaves expired memories out of reads, searches and the startup context', async () => {
+    // Arrange
+    const temporary = await memoryStorage.remember('work', 'Debugging PR 123', [], false, {
+      ttlMs: 2 * HOUR_MS,
+    });
+    await memoryStorage.remember('work', 'Uses pnpm', [], false);
+
+    // Act
+    const before = await memoryStorage.retrieve('work', false);
+    advance(2 * HOUR_MS);
+
+    // Assert
+    expect(temporary.expiresAt).toBe('2025-06-01T11:00:00.000Z');
+    expect(before).toHaveLength(2);
+    expect(await memoryStorage.retrieve('work', false)).toMatchObject([{ data: 'Uses pnpm' }]);
+    expect(await memoryStorage.search({ query: 'PR 123' })).toEqual([]);
+    expect(await memoryStorage.get(temporary.id, false)).toBeUndefined();
+    expect(await renderMemoryContext(memoryStorage)).not.toContain('Debugging PR 123');
+  });
+
+  it('sweeps expired memories to the trash, from where they can be restored for good', async () => {
+    // Arrange
+    const temporary = await memoryStorage.remember('work', 'Debugging PR 123', [], false, {
+      expiresAt: new Date('2025-06-01T10:00:00.000Z'),
+    });
+    await memoryStorage.remember('work', 'Uses pnpm', [], false);
+    const events: MemoryChangeEvent[] = [];
+    memoryStorage.on('change', event => events.push(event));
+
+    // Act
+    const early = await memoryStorage.sweepExpired();
+    advance(HOUR_MS);
+    const swept = await memoryStorage.sweepExpired();
+    const restored = await memoryStorage.restore(temporary.id, false);
+
+    // Assert
+    expect(early).toEqual([]);
+    expect(swept).toMatchObject([{ id: temporary.id }]);
+    expect(events[0]).toEqual({
+      type: 'delete',
+      scope: 'local',
+      category: 'work',
+      ids: [temporary.id],
+    });
+    expect(await memoryStorage.history(false, { id: temporary.id })).toMatchObject([
+      { type: 'create' },
+      { type: 'delete', origin: 'expiry' },
+      { type: 'create' },
+    ]);
+    expect(restored?.expiresAt).toBeUndefined();
+    expect(await memoryStorage.retrieve('work', false)).toHaveLength(2);
+  });
+
+  it.each(EXCHANGE_FORMATS)(
+    'keeps expiry times through %s exports, skipping memories expired since',
+    async format => {
+      // Arrange
+      const temporary = await memoryStorage.remember('work', 'Debugging PR 123', [], false, {
+        ttlMs: 2 * HOUR_MS,
+      });
+      await memoryStorage.remember('work', 'Reviewing PR 124', [], false, { ttlMs: HOUR_MS });
+      await memoryStorage.remember('work', 'Uses pnpm', [], false);
+      const exported = exportMemories(await memoryStorage.retrieveAll(false), format);
+      await memoryStorage.clearAllGlobalOrLocalMemories(false);
+      advance(HOUR_MS);
+
+      // Act
+      const result = await memoryStorage.importMemories(
+        parseImport(exported, format),
+        false,
+        'keep_both'
+      );
+
+      // Assert
+      expect(result).toEqual({ created: 2, updated: 0, skipped: 1 });
+      const memories = await memoryStorage.retrieve('work', false);
+      expect(memories).toMatchObject([
+        { id: temporary.id, expiresAt: '2025-06-01T11:00:00.000Z' },
+        { data: 'Uses pnpm' },
+      ]);
+      expect(memories[1]).not.toHaveProperty('expiresAt');
+    }
+  );
+
+  it('rejects an expiry in the past or given twice', async () => {
+    await expect(
+      memoryStorage.remember('work', 'Debugging PR 123', [], false, {
+        expiresAt: new Date('2025-06-01T08:00:00.000Z'),
+      })
+    ).rejects.toThrow('The expiry time must be in the future');
+    await expect(
+      memoryStorage.remember('work', 'Debugging PR 123', [], false, {
+        ttlMs: HOUR_MS,
+        expiresAt: new Date('2025-06-02T00:00:00.000Z'),
+      })
+    ).rejects.toThrow('Give either a ttl or an expiry time, not both');
+  });
+});
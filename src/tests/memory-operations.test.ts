@@ -1,5 +1,8 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
-import { MemoryStorage } from '../lib/memory-storage.js';
+import { InvalidCategoryError } from '../lib/category-policy.js';
+import { InMemoryBackend } from '../lib/in-memory-backend.js';
+import { serializeCategoryFile } from '../lib/memory-format.js';
+import { MemoryChangeEvent, MemoryStorage, groupMemories } from '../lib/memory-storage.js';
 import { createTempDir, removeTempDir, initTestMemoryStorage } from './test-utils.js';
 import fs from 'fs';
 import path from 'path';
@@ -30,12 +33,12 @@ describe('Memory Storage Operations', () => {
     await memoryStorage.remember(category, data, tags, isGlobal);
 
     // Assert
-    const filePath = path.join(testDirs.globalDir, `${category}.txt`);
+    const filePath = path.join(testDirs.globalDir, `${category}.jsonl`);
     expect(fs.existsSync(filePath)).toBe(true);
 
-    const content = fs.readFileSync(filePath, 'utf-8');
-    expect(content).toContain('# tag1 tag2');
-    expect(content).toContain(data);
+    const [header, entry] = fs.readFileSync(filePath, 'utf-8').trim().split('\n');
+    expect(JSON.parse(header)).toEqual({ format: 'mcp-memory', version: 1, category });
+    expect(JSON.parse(entry)).toMatchObject({ data, tags });
   });
 
   it('retrieves memories by category', async () => {
@@ -54,9 +57,45 @@ describe('Memory Storage Operations', () => {
     const result = await memoryStorage.retrieve(category, isGlobal);
 
     // Assert
-    expect(Object.keys(result)).toHaveLength(2);
-    expect(result['tag1']).toContain(data1);
-    expect(result['tag2 tag3']).toContain(data2);
+    expect(result).toHaveLength(2);
+    expect(result[0]).toMatchObject({ category, data: data1, tags: tags1, isGlobal });
+    expect(result[1]).toMatchObject({ category, data: data2, tags: tags2, isGlobal });
+  });
+
+  it('keeps every memory when several share the same tags', async () => {
+    // Arrange
+    await memoryStorage.remember('test-category', 'First', ['tag1', 'tag2'], false);
+    await memoryStorage.remember('test-category', 'Second', ['tag1', 'tag2'], false);
+    await memoryStorage.remember('test-category', 'Untagged 1', [], false);
+    await memoryStorage.remember('test-category', 'Untagged 2', [], false);
+
+    // Act
+    const result = await memoryStorage.retrieve('test-category', false);
+
+    // Assert
+    expect(result.map(memory => memory.data)).toEqual([
+      'First',
+      'Second',
+      'Untagged 1',
+      'Untagged 2',
+    ]);
+  });
+
+  it('groups memories by tag or category', async () => {
+    // Arrange
+    const first = await memoryStorage.remember('category1', 'First', ['tag1', 'tag2'], true);
+    const second = await memoryStorage.remember('category1', 'Second', ['tag1'], true);
+    const third = await memoryStorage.remember('category2', 'Third', [], true);
+    const memories = await memoryStorage.retrieveAll(true);
+
+    // Act
+    const byTag = groupMemories(memories, 'tag');
+    const byCategory = groupMemories(memories, 'category');
+
+    // Assert
+    expect(byTag).toEqual({ tag1: [first, second], tag2: [first], untagged: [third] });
+    expect(byCategory).toEqual({ category1: [first, second], category2: [third] });
+    expect(groupMemories(memories, 'none')).toEqual(memories);
   });
 
   it('removes specific memory', async () => {
@@ -74,7 +113,7 @@ describe('Memory Storage Operations', () => {
 
     // Assert
     const result = await memoryStorage.retrieve(category, isGlobal);
-    const allMemories = Object.values(result).flat();
+    const allMemories = result.map(memory => memory.data);
 
     expect(allMemories).toContain(data1);
     expect(allMemories).not.toContain(data2);
@@ -92,7 +131,7 @@ describe('Memory Storage Operations', () => {
     await memoryStorage.clearMemory(category, isGlobal);
 
     // Assert
-    const filePath = path.join(testDirs.localDir, `${category}.txt`);
+    const filePath = path.join(testDirs.localDir, `${category}.jsonl`);
     expect(fs.existsSync(filePath)).toBe(false);
   });
 
@@ -105,9 +144,503 @@ describe('Memory Storage Operations', () => {
     const result = await memoryStorage.retrieveAll(true);
 
     // Assert
-    expect(Object.keys(result)).toContain('category1');
-    expect(Object.keys(result)).toContain('category2');
-    expect(result['category1']).toContain('Data 1');
-    expect(result['category2']).toContain('Data 2');
+    expect(result.map(memory => memory.category)).toContain('category1');
+    expect(result.map(memory => memory.category)).toContain('category2');
+    expect(result.map(memory => memory.data)).toContain('Data 1');
+    expect(result.map(memory => memory.data)).toContain('Data 2');
+  });
+
+  it('searches memories by query, tags and category', async () => {
+    // Arrange
+    await memoryStorage.remember(
+      'development',
+      'Uses pnpm for package management',
+      ['tools'],
+      true
+    );
+    await memoryStorage.remember('development', 'Prefers 2-space indentation', ['style'], true);
+    await memoryStorage.remember(
+      'project',
+      'Runs pnpm test before committing',
+      ['workflow'],
+      false
+    );
+
+    // Act
+    const results = await memoryStorage.search({ query: 'pnpm package' });
+
+    // Assert
+    expect(results).toHaveLength(2);
+    expect(results[0]).toMatchObject({
+      category: 'development',
+      data: 'Uses pnpm for package management',
+      tags: ['tools'],
+      scope: 'global',
+    });
+    expect(results[1]).toMatchObject({ category: 'project', scope: 'local' });
+    expect(results[0].score).toBeGreaterThan(results[1].score);
+  });
+
+  it('filters search results by tags, categories and scope', async () => {
+    // Arrange
+    await memoryStorage.remember('development', 'Uses eslint', ['tools', 'lint'], true);
+    await memoryStorage.remember('development', 'Uses prettier', ['tools', 'format'], true);
+    await memoryStorage.remember('personal', 'Prefers dark mode tools', ['tools'], true);
+    await memoryStorage.remember('development', 'Uses eslint locally', ['tools'], false);
+
+    // Act
+    const byTags = await memoryStorage.search({ tags: ['tools'], excludeTags: ['format'] });
+    const byCategory = await memoryStorage.search({
+      tags: ['tools'],
+      categories: ['development'],
+      scope: 'global',
+    });
+
+    // Assert
+    expect(byTags.map(result => result.data)).toEqual([
+      'Uses eslint locally',
+      'Uses eslint',
+      'Prefers dark mode tools',
+    ]);
+    expect(byCategory.map(result => result.data)).toEqual(['Uses eslint', 'Uses prettier']);
+  });
+
+  it('assigns a stable ID and timestamps to stored memories', async () => {
+    // Arrange
+    const memory = await memoryStorage.remember('test-category', 'Memory data', ['tag1'], true);
+
+    // Act
+    const first = await memoryStorage.retrieve('test-category', true);
+    const second = await memoryStorage.retrieve('test-category', true);
+
+    // Assert
+    expect(memory.id).toMatch(/^[0-9a-f-]{36}$/);
+    expect(memory.createdAt).toBe(memory.updatedAt);
+    expect(first).toEqual([memory]);
+    expect(second).toEqual([memory]);
+  });
+
+  it('keeps memory text with blank lines and leading hashes intact', async () => {
+    // Arrange
+    const data = '# Not a tag line\n\nSecond paragraph\n';
+
+    // Act
+    await memoryStorage.remember('test-category', data, ['tag1'], false);
+    await memoryStorage.remember('test-category', 'Next memory', [], false);
+
+    // Assert
+    const result = await memoryStorage.retrieve('test-category', false);
+    expect(result.map(memory => memory.data)).toEqual([data, 'Next memory']);
+  });
+
+  it('migrates legacy text category files on first access', async () => {
+    // Arrange
+    const legacyPath = path.join(testDirs.localDir, 'legacy.txt');
+    fs.writeFileSync(legacyPath, '# tag1 tag2\\nLegacy memory\\n\\nUntagged memory\\n\\n');
+
+    // Act
+    const first = await memoryStorage.retrieveAll(false);
+    const second = await new MemoryStorage(testDirs.globalDir, testDirs.localDir).retrieveAll(
+      false
+    );
+
+    // Assert
+    expect(first.map(memory => memory.data)).toEqual(['Legacy memory', 'Untagged memory']);
+    expect(first[0]).toMatchObject({ category: 'legacy', tags: ['tag1', 'tag2'] });
+    expect(second).toEqual(first);
+    expect(fs.existsSync(legacyPath)).toBe(false);
+    expect(fs.existsSync(`${legacyPath}.migrated`)).toBe(true);
+  });
+
+  it('reports the file and line of corrupt entries', async () => {
+    // Arrange
+    await memoryStorage.remember('test-category', 'Valid memory', [], true);
+    fs.appendFileSync(path.join(testDirs.globalDir, 'test-category.jsonl'), '{"id": "x"}\n');
+
+    // Act & Assert
+    await expect(memoryStorage.retrieve('test-category', true)).rejects.toThrow(
+      /test-category\.jsonl:3: data: Required/
+    );
+  });
+
+  it('removes only the memory with the given ID', async () => {
+    // Arrange
+    const first = await memoryStorage.remember('test-category', 'Same text', [], false);
+    const second = await memoryStorage.remember('test-category', 'Same text', [], false);
+
+    // Act
+    const removed = await memoryStorage.removeMemory('test-category', first.id, false);
+    const missing = await memoryStorage.removeMemory('test-category', 'unknown-id', false);
+
+    // Assert
+    expect(removed).toEqual(first);
+    expect(missing).toBeUndefined();
+    const result = await memoryStorage.retrieve('test-category', false);
+    expect(result).toEqual([second]);
+  });
+
+  it('updates a memory in place', async () => {
+    // Arrange
+    const first = await memoryStorage.remember('test-category', 'First', ['tag1'], true);
+    const second = await memoryStorage.remember('test-category', 'Second', ['tag1'], true);
+
+    // Act
+    const result = await memoryStorage.update(first.id, true, {
+      data: 'First, edited',
+      tags: ['tag1', 'edited'],
+    });
+
+    // Assert
+    expect(result?.before).toEqual(first);
+    expect(result?.after).toMatchObject({
+      id: first.id,
+      data: 'First, edited',
+      tags: ['tag1', 'edited'],
+      createdAt: first.createdAt,
+    });
+    const all = await memoryStorage.retrieveAll(true);
+    expect(all).toEqual([result?.after, second]);
+  });
+
+  it('moves a memory to another category and scope on update', async () => {
+    // Arrange
+    const memory = await memoryStorage.remember('drafts', 'Move me', [], false);
+
+    // Act
+    const result = await memoryStorage.update(memory.id, false, {
+      category: 'preferences',
+      isGlobal: true,
+    });
+    const missing = await memoryStorage.update('unknown-id', false, { data: 'x' });
+
+    // Assert
+    expect(result?.after).toMatchObject({ id: memory.id, category: 'preferences', isGlobal: true });
+    expect(missing).toBeUndefined();
+    expect(await memoryStorage.get(memory.id, false)).toBeUndefined();
+    expect(await memoryStorage.get(memory.id, true)).toEqual(result?.after);
+  });
+
+  it('keeps memories in process memory with the in-memory backend', async () => {
+    // Arrange
+    const missingDir = path.join(tempDir, 'missing');
+    const inMemoryStorage = new MemoryStorage(missingDir, missingDir, {
+      backend: new InMemoryBackend(),
+    });
+
+    // Act
+    const memory = await inMemoryStorage.remember('test-category', 'Ephemeral', ['tag1'], true);
+    await inMemoryStorage.remember('test-category', 'Local only', [], false);
+    const updated = await inMemoryStorage.update(memory.id, true, { data: 'Ephemeral, edited' });
+
+    // Assert
+    expect(await inMemoryStorage.retrieveAll(true)).toEqual([updated?.after]);
+    expect((await inMemoryStorage.retrieveAll(false)).map(entry => entry.data)).toEqual([
+      'Local only',
+    ]);
+    await inMemoryStorage.clearAllGlobalOrLocalMemories(false);
+    expect(await inMemoryStorage.retrieveAll(false)).toEqual([]);
+    expect(fs.existsSync(missingDir)).toBe(false);
+  });
+
+  it('rejects category names that would escape the storage directory', async () => {
+    // Act & Assert
+    await expect(
+      memoryStorage.remember('../../.ssh/authorized_keys', 'ssh-rsa AAAA', [], true)
+    ).rejects.toThrow(InvalidCategoryError);
+    await expect(memoryStorage.retrieve('foo/bar', false)).rejects.toThrow(InvalidCategoryError);
+    expect(fs.readdirSync(testDirs.globalDir)).toEqual([]);
+  });
+
+  it('stores unicode and mixed-case categories under safe file names', async () => {
+    // Arrange
+    await memoryStorage.remember('Project Notes', 'First', [], true);
+    await memoryStorage.remember('project notes', 'Second', [], true);
+    await memoryStorage.remember('日本語', 'Third', [], true);
+
+    // Act
+    const memories = await memoryStorage.retrieveAll(true);
+
+    // Assert
+    expect(memories.map(memory => [memory.category, memory.data])).toEqual([
+      ['project notes', 'First'],
+      ['project notes', 'Second'],
+      ['日本語', 'Third'],
+    ]);
+    // Hidden files are auxiliary documents such as the history
+    for (const file of fs.readdirSync(testDirs.globalDir).filter(name => !name.startsWith('.'))) {
+      expect(file).toMatch(/^[a-z0-9._~-]+\.jsonl$/);
+    }
+  });
+
+  it('renames category files written before names were normalized', async () => {
+    // Arrange
+    fs.writeFileSync(
+      path.join(testDirs.localDir, 'Development.jsonl'),
+      serializeCategoryFile('Development', [
+        {
+          id: 'existing',
+          data: 'Uses pnpm',
+          tags: [],
+          createdAt: '2025-01-01T00:00:00.000Z',
+          updatedAt: '2025-01-01T00:00:00.000Z',
+        },
+      ])
+    );
+
+    // Act
+    const memories = await memoryStorage.retrieve('DEVELOPMENT', false);
+
+    // Assert
+    expect(memories).toMatchObject([{ id: 'existing', category: 'development' }]);
+    expect(fs.readdirSync(testDirs.localDir).sort()).toEqual([
+      'Development.jsonl.migrated',
+      'development.jsonl',
+    ]);
+  });
+
+  it('emits change events for every mutation', async () => {
+    // Arrange
+    const events: MemoryChangeEvent[] = [];
+    memoryStorage.on('change', event => events.push(event));
+
+    // Act
+    const memory = await memoryStorage.remember('test-category', 'Memory', [], false);
+    await memoryStorage.update(memory.id, false, { category: 'moved' });
+    await memoryStorage.removeMemory('moved', memory.id, false);
+    await memoryStorage.clearAllGlobalOrLocalMemories(true);
+
+    // Assert
+    expect(events).toEqual([
+      { type: 'create', scope: 'local', category: 'test-category', ids: [memory.id] },
+      { type: 'delete', scope: 'local', category: 'test-category', ids: [memory.id] },
+      { type: 'create', scope: 'local', category: 'moved', ids: [memory.id] },
+      { type: 'delete', scope: 'local', category: 'moved', ids: [memory.id] },
+      { type: 'clear', scope: 'global', ids: [] },
+    ]);
+  });
+
+  it('moves deleted memories to the trash and restores them', async () => {
+    // Arrange
+    const kept = await memoryStorage.remember('development', 'Uses pnpm', ['tools'], true);
+    const removed = await memoryStorage.remember('development', 'Uses npm', [], true);
+    await memoryStorage.remember('personal', 'Likes tea', [], true);
+
+    // Act
+    await memoryStorage.removeMemory('development', removed.id, true);
+    await memoryStorage.clearAllGlobalOrLocalMemories(true);
+    const deleted = await memoryStorage.listDeleted(true);
+    const restored = await memoryStorage.restore(removed.id, true);
+
+    // Assert
+    expect(deleted.map(memory => memory.data).sort()).toEqual([
+      'Likes tea',
+      'Uses npm',
+      'Uses pnpm',
+    ]);
+    expect(deleted[deleted.length - 1]).toMatchObject({ id: removed.id, category: 'development' });
+    expect(restored).toEqual(removed);
+    expect(await memoryStorage.retrieve('development', true)).toEqual([removed]);
+    expect((await memoryStorage.listDeleted(true, 'development')).map(memory => memory.id)).toEqual(
+      [kept.id]
+    );
+  });
+
+  it('purges deleted memories permanently', async () => {
+    // Arrange
+    const first = await memoryStorage.remember('notes', 'First', [], false);
+    await memoryStorage.remember('notes', 'Second', [], false);
+    await memoryStorage.clearMemory('notes', false);
+
+    // Act
+    const purgedOne = await memoryStorage.purge(false, first.id);
+    const purgedRest = await memoryStorage.purge(false);
+
+    // Assert
+    expect(purgedOne.map(memory => memory.data)).toEqual(['First']);
+    expect(purgedRest.map(memory => memory.data)).toEqual(['Second']);
+    expect(await memoryStorage.listDeleted(false)).toEqual([]);
+    expect(await memoryStorage.restore(first.id, false)).toBeUndefined();
+  });
+
+  it('drops deleted memories after the retention period', async () => {
+    // Arrange
+    const backend = new InMemoryBackend();
+    const storage = new MemoryStorage('', '', { backend, trashRetentionDays: 7 });
+    const record = (id: string, deletedAt: string) =>
+      JSON.stringify({
+        id,
+        data: id,
+        tags: [],
+        createdAt: '2025-01-01T00:00:00.000Z',
+        updatedAt: '2025-01-01T00:00:00.000Z',
+        category: 'notes',
+        deletedAt,
+      });
+    const recent = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
+    await backend.writeDocument(
+      'global',
+      'trash',
+      `${record('expired', '2025-01-01T00:00:00.000Z')}\n${record('recent', recent)}\n`
+    );
+
+    // Act
+    const deleted = await storage.listDeleted(true);
+
+    // Assert
+    expect(deleted.map(memory => memory.id)).toEqual(['recent']);
+  });
+
+  it('records every change in the history of its scope', async () => {
+    // Arrange
+    const memory = await memoryStorage.remember('development', 'Uses npm', [], true, {
+      origin: 'remember_memory',
+    });
+    await memoryStorage.update(memory.id, true, { data: 'Uses pnpm' }, { origin: 'update_memory' });
+    await memoryStorage.update(memory.id, true, { isGlobal: false });
+    await memoryStorage.remember('personal', 'Likes tea', [], true);
+
+    // Act
+    const global = await memoryStorage.history(true, { id: memory.id });
+    const local = await memoryStorage.history(false);
+    const personal = await memoryStorage.history(true, { category: 'personal' });
+
+    // Assert
+    expect(global.map(entry => [entry.type, entry.origin])).toEqual([
+      ['delete', undefined],
+      ['update', 'update_memory'],
+      ['create', 'remember_memory'],
+    ]);
+    expect(global[1]).toMatchObject({
+      before: { data: 'Uses npm', category: 'development' },
+      after: { data: 'Uses pnpm', category: 'development' },
+    });
+    expect(local).toMatchObject([{ type: 'create', id: memory.id, after: { data: 'Uses pnpm' } }]);
+    expect(personal.map(entry => entry.after?.data)).toEqual(['Likes tea']);
+  });
+
+  it('rolls a scope back to a snapshot', async () => {
+    // Arrange
+    const kept = await memoryStorage.remember('development', 'Uses pnpm', ['tools'], false);
+    const edited = await memoryStorage.remember('development', 'Uses eslint', [], false);
+    const snapshot = await memoryStorage.snapshot(false, 'Before cleanup');
+    await memoryStorage.update(edited.id, false, { data: 'Uses biome' });
+    await memoryStorage.clearMemory('development', false);
+    const added = await memoryStorage.remember('notes', 'Added later', [], false);
+
+    // Act
+    const result = await memoryStorage.restoreSnapshot(snapshot.id, false);
+
+    // Assert
+    expect(result).toMatchObject({ snapshot: { id: snapshot.id, count: 2 }, changes: 3 });
+    expect(await memoryStorage.retrieveAll(false)).toEqual([kept, edited]);
+    expect((await memoryStorage.listSnapshots(false)).map(entry => entry.label)).toEqual([
+      `Before restoring snapshot ${snapshot.id}`,
+      'Before cleanup',
+    ]);
+    const history = await memoryStorage.history(false, { limit: 3 });
+    expect(history.map(entry => [entry.type, entry.id]).sort()).toEqual(
+      [
+        ['create', kept.id],
+        ['create', edited.id],
+        ['delete', added.id],
+      ].sort()
+    );
+
+    // Undo the restore with the backup snapshot
+    await memoryStorage.restoreSnapshot(result!.backup.id, false);
+    expect(await memoryStorage.retrieveAll(false)).toEqual([added]);
+  });
+
+  it('prunes changes and snapshots past the history retention period', async () => {
+    // Arrange
+    const earlier = new MemoryStorage(testDirs.globalDir, testDirs.localDir, {
+      clock: () => new Date(Date.now() - 40 * 24 * 60 * 60 * 1000),
+    });
+    const old = await earlier.remember('development', 'Uses npm', [], false);
+    const oldSnapshot = await earlier.snapshot(false, 'Old');
+    const storage = new MemoryStorage(testDirs.globalDir, testDirs.localDir, {
+      historyRetentionDays: 30,
+    });
+    const recent = await storage.remember('development', 'Uses pnpm', [], false);
+    await storage.snapshot(false, 'Recent');
+
+    // Act
+    const before = await storage.history(false);
+    const pruned = await storage.pruneHistory();
+
+    // Assert
+    expect(before.map(entry => entry.id)).toEqual([recent.id]);
+    expect(pruned).toEqual({ changes: 1, snapshots: 1 });
+    expect((await storage.history(false)).map(entry => entry.id)).toEqual([recent.id]);
+    expect((await storage.listSnapshots(false)).map(entry => entry.label)).toEqual(['Recent']);
+    expect(await storage.restoreSnapshot(oldSnapshot.id, false)).toBeUndefined();
+    expect(fs.existsSync(path.join(testDirs.localDir, `.snapshot-${oldSnapshot.id}`))).toBe(false);
+    expect(await new MemoryStorage(testDirs.globalDir, testDirs.localDir).history(false)).toEqual(
+      await storage.history(false)
+    );
+    expect(await storage.retrieve('development', false)).toEqual([old, recent]);
+  });
+
+  it('retrieves both scopes tagged with their scope', async () => {
+    // Arrange
+    const global = await memoryStorage.remember('style', 'Prefers tabs', [], true);
+    const local = await memoryStorage.remember('style', 'Uses 2 spaces here', [], false);
+
+    // Act
+    const all = await memoryStorage.retrieveScoped('all', 'style');
+    const both = await memoryStorage.retrieveScoped('both', 'style');
+
+    // Assert
+    expect(all).toEqual([
+      { ...local, scope: 'local' },
+      { ...global, scope: 'global' },
+    ]);
+    expect(both).toEqual(all);
+  });
+
+  it('lets the categories of the preferred scope shadow the other scope', async () => {
+    // Arrange
+    const storage = new MemoryStorage(testDirs.globalDir, testDirs.localDir, {
+      scopePrecedence: 'local',
+    });
+    await storage.remember('style', 'Prefers tabs', [], true);
+    const general = await storage.remember('general', 'Prefers short answers', [], true);
+    const local = await storage.remember('style', 'Uses 2 spaces here', [], false);
+
+    // Act
+    const memories = await storage.retrieveScoped('all');
+    const results = await storage.search({ query: 'prefers', scope: 'all' });
+    const globalOnly = await storage.retrieveScoped('global');
+
+    // Assert
+    expect(memories.map(memory => memory.id)).toEqual([local.id, general.id]);
+    expect(results.map(result => result.id)).toEqual([general.id]);
+    expect(globalOnly).toHaveLength(2);
+  });
+
+  it('keeps the memories of named scopes in their own directory', async () => {
+    // Arrange
+    const teamDir = path.join(tempDir, 'team');
+    const storage = new MemoryStorage(testDirs.globalDir, testDirs.localDir, {
+      scopes: { team: teamDir },
+    });
+    const memory = await storage.remember('style', 'Reviews need two approvals', [], 'team');
+    await storage.remember('style', 'Uses 2 spaces here', [], false);
+
+    // Act
+    const team = await storage.retrieve('style', 'team');
+    const all = await storage.retrieveScoped('all', 'style');
+    const moved = await storage.update(memory.id, 'team', { scope: 'global' });
+
+    // Assert
+    expect(fs.readdirSync(teamDir)).toContain('style.jsonl');
+    expect(team).toEqual([memory]);
+    expect(memory).toMatchObject({ scope: 'team', isGlobal: false });
+    expect(all.map(entry => entry.scope)).toEqual(['local', 'team']);
+    expect(moved?.after).toMatchObject({ scope: 'global', isGlobal: true });
+    expect(await storage.retrieve('style', 'team')).toEqual([]);
+    await expect(storage.retrieve('style', 'org')).rejects.toThrow(
+      'Unknown scope: org, available scopes are local, team, global'
+    );
   });
 });
@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { QuotaExceededError } from '../lib/memory-quotas.js';
+import { MemoryStorage } from '../lib/memory-storage.js';
+import { createTempDir, initTestMemoryStorage, removeTempDir } from './test-utils.js';
+
+describe('Memory Quotas', () => {
+  let tempDir: string;
+  let globalDir: string;
+  let localDir: string;
+
+  beforeEach(() => {
+    tempDir = createTempDir();
+    ({ globalDir, localDir } = initTestMemoryStorage(tempDir));
+  });
+
+  afterEach(() => {
+    removeTempDir(tempDir);
+  });
+
+  it('rejects memories over the data size and tag limits', async () => {
+    // Arrange
+    const memoryStorage = new MemoryStorage(globalDir, localDir, {
+      quotas: { maxDataBytes: 8, maxTagsPerMemory: 1 },
+    });
+
+    // Act & Assert
+    await expect(memoryStorage.remember('tools', 'Uses pnpm', [], false)).rejects.toMatchObject({
+      name: 'QuotaExceededError',
+      limit: 'maxDataBytes',
+      max: 8,
+      actual: 9,
+    });
+    await expect(memoryStorage.remember('tools', 'pnpm', ['a', 'b'], false)).rejects.toThrow(
+      'Memory has 2 tags, over the limit of 1 tags per memory'
+    );
+    // Multi-byte characters count in UTF-8 bytes
+    await expect(memoryStorage.remember('tools', 'ツール', [], false)).rejects.toThrow(
+      QuotaExceededError
+    );
+    expect(await memoryStorage.retrieveAll(false)).toEqual([]);
+  });
+
+  it('limits the categories and total size of each scope', async () => {
+    // Arrange
+    const memoryStorage = new MemoryStorage(globalDir, localDir, {
+      quotas: { maxCategoriesPerScope: 1, maxScopeBytes: 20 },
+    });
+    await memoryStorage.remember('tools', 'Uses pnpm', ['node'], false);
+
+    // Act & Assert
+    await expect(memoryStorage.remember('style', 'Tabs', [], false)).rejects.toMatchObject({
+      limit: 'maxCategoriesPerScope',
+      scope: 'local',
+    });
+    await expect(memoryStorage.remember('tools', 'Uses vitest', [], false)).rejects.toThrow(
+      'The local scope would hold 24 bytes of memories, over the limit of 20 bytes per scope'
+    );
+    // Other scopes have their own usage
+    await memoryStorage.remember('style', 'Tabs', [], true);
+    expect(await memoryStorage.usage(false)).toEqual({
+      memories: 1,
+      categories: 1,
+      bytes: 13,
+      largestDataBytes: 9,
+      mostTags: 1,
+    });
+  });
+
+  it('checks updates, imports and restores, letting a scope over its limit shrink', async () => {
+    // Arrange
+    const unlimited = new MemoryStorage(globalDir, localDir);
+    const large = await unlimited.remember('tools', 'Uses pnpm workspaces', [], false);
+    const removed = await unlimited.remember('tools', 'Uses npm', [], false);
+    await unlimited.removeMemory('tools', removed.id, false);
+    const memoryStorage = new MemoryStorage(globalDir, localDir, {
+      quotas: { maxScopeBytes: 16 },
+    });
+
+    // Act
+    const shrunk = await memoryStorage.update(large.id, false, { data: 'Uses pnpm' });
+
+    // Assert
+    expect(shrunk?.after.data).toBe('Uses pnpm');
+    await expect(
+      memoryStorage.update(large.id, false, { data: 'Uses pnpm workspaces' })
+    ).rejects.toThrow(QuotaExceededError);
+    await expect(memoryStorage.restore(removed.id, false)).rejects.toThrow(QuotaExceededError);
+    await expect(
+      memoryStorage.importMemories(
+        [{ category: 'tools', data: 'Uses vitest', tags: [] }],
+        false,
+        'keep_both'
+      )
+    ).rejects.toThrow(QuotaExceededError);
+    expect(await memoryStorage.retrieveAll(false)).toMatchObject([{ data: 'Uses pnpm' }]);
+    expect(await memoryStorage.listDeleted(false)).toMatchObject([{ id: removed.id }]);
+  });
+});
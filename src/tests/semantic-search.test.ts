@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import {
+  HashedNgramEmbeddingProvider,
+  cosineSimilarity,
+  loadEmbeddingProvider,
+} from '../lib/embeddings.js';
+import { MemoryStorage } from '../lib/memory-storage.js';
+import { createTempDir, initTestMemoryStorage, removeTempDir } from './test-utils.js';
+
+describe('Semantic Search', () => {
+  let tempDir: string;
+  let globalDir: string;
+  let localDir: string;
+  let memoryStorage: MemoryStorage;
+
+  // IDs of the memories that have a stored vector in the local scope
+  const vectorIds = () =>
+    fs
+      .readFileSync(path.join(localDir, '.vectors'), 'utf-8')
+      .trim()
+      .split('\n')
+      .filter(line => line)
+      .map(line => JSON.parse(line).id);
+
+  beforeEach(() => {
+    tempDir = createTempDir();
+    ({ globalDir, localDir } = initTestMemoryStorage(tempDir));
+    memoryStorage = new MemoryStorage(globalDir, localDir, {
+      embeddingProvider: new HashedNgramEmbeddingProvider(),
+    });
+  });
+
+  afterEach(() => {
+    removeTempDir(tempDir);
+  });
+
+  it('embeds related wordings closer than unrelated ones', async () => {
+    // Arrange
+    const provider = new HashedNgramEmbeddingProvider();
+
+    // Act
+    const [query, related, unrelated] = await provider.embed([
+      'preferred test runner',
+      'The tests run with the vitest runners',
+      'Deploys happen on Fridays',
+    ]);
+
+    // Assert
+    expect(Math.hypot(...query)).toBeCloseTo(1);
+    expect(cosineSimilarity(query, related)).toBeGreaterThan(
+      cosineSimilarity(query, unrelated) + 0.2
+    );
+  });
+
+  it('returns the most similar memories with their scores', async () => {
+    // Arrange
+    const related = await memoryStorage.remember(
+      'testing',
+      'Tests run with vitest runners',
+      [],
+      false
+    );
+    await memoryStorage.remember('deploy', 'Deploys happen on Fridays', [], true);
+
+    // Act
+    const results = await memoryStorage.similar({ query: 'preferred test runner', limit: 1 });
+
+    // Assert
+    expect(results).toHaveLength(1);
+    expect(results[0]).toMatchObject({ id: related.id, scope: 'local' });
+    expect(results[0].score).toBeGreaterThan(0);
+  });
+
+  it('keeps the stored vectors in step with changes', async () => {
+    // Arrange
+    const kept = await memoryStorage.remember('notes', 'Kept', [], false);
+    const removed = await memoryStorage.remember('notes', 'Removed', [], false);
+
+    // Act
+    await memoryStorage.update(kept.id, false, { data: 'Kept and updated' });
+    await memoryStorage.removeMemory('notes', removed.id, false);
+
+    // Assert
+    expect(vectorIds()).toEqual([kept.id]);
+  });
+
+  it('computes vectors for memories changed outside the storage', async () => {
+    // Arrange
+    const other = new MemoryStorage(globalDir, localDir);
+    const memory = await other.remember('testing', 'Uses vitest as the test runner', [], false);
+
+    // Act
+    const results = await memoryStorage.similar({ query: 'test runner', scope: 'local' });
+
+    // Assert
+    expect(results.map(result => result.id)).toEqual([memory.id]);
+    expect(vectorIds()).toEqual([memory.id]);
+  });
+
+  it('uses an external provider loaded from a module', async () => {
+    // Arrange
+    const provider = await loadEmbeddingProvider('src/tests/fixtures/embedding-provider.ts');
+    const storage = new MemoryStorage(globalDir, localDir, { embeddingProvider: provider });
+    const memory = await storage.remember('testing', 'We use vitest', [], false);
+    await storage.remember('deploy', 'Deploy on Fridays', [], false);
+
+    // Act
+    const results = await storage.similar({ query: 'vitest', scope: 'local' });
+
+    // Assert
+    expect(provider.id).toBe('fixture-words');
+    expect(results).toMatchObject([{ id: memory.id, score: 1 }]);
+  });
+
+  it('rejects similarity searches without a provider', async () => {
+    // Act & Assert
+    await expect(
+      new MemoryStorage(globalDir, localDir).similar({ query: 'anything' })
+    ).rejects.toThrow('Semantic search is disabled');
+  });
+});
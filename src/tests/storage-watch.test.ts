@@ -0,0 +1,159 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import { FileBackend } from '../lib/file-backend.js';
+import { serializeCategoryFile } from '../lib/memory-format.js';
+import { MemoryChangeEvent, MemoryStorage } from '../lib/memory-storage.js';
+import { createTempDir, initTestMemoryStorage, removeTempDir } from './test-utils.js';
+
+describe('Storage Watching', () => {
+  let tempDir: string;
+  let globalDir: string;
+  let memoryStorage: MemoryStorage;
+  let stopWatching: () => void;
+  const timestamp = '2025-01-01T00:00:00.000Z';
+
+  // Resolve with the next change event
+  const nextChange = () =>
+    new Promise<MemoryChangeEvent>(resolve => memoryStorage.once('change', resolve));
+
+  beforeEach(async () => {
+    tempDir = createTempDir();
+    const dirs = initTestMemoryStorage(tempDir);
+    globalDir = dirs.globalDir;
+    memoryStorage = new MemoryStorage(dirs.globalDir, dirs.localDir, {
+      backend: new FileBackend(dirs.globalDir, dirs.localDir, { watchDebounceMs: 20 }),
+    });
+    stopWatching = await memoryStorage.watch();
+  });
+
+  afterEach(() => {
+    stopWatching();
+    vi.restoreAllMocks();
+    removeTempDir(tempDir);
+  });
+
+  it('reloads categories edited outside the server', async () => {
+    // Arrange
+    const memory = await memoryStorage.remember('development', 'Uses npm', [], true);
+    const changed = nextChange();
+
+    // Act
+    fs.writeFileSync(
+      path.join(globalDir, 'development.jsonl'),
+      serializeCategoryFile('development', [
+        { ...memory, data: 'Uses pnpm' },
+        {
+          id: 'hand-written',
+          data: 'Uses vitest',
+          tags: [],
+          createdAt: timestamp,
+          updatedAt: timestamp,
+        },
+      ])
+    );
+
+    // Assert
+    expect(await changed).toEqual({
+      type: 'reload',
+      scope: 'global',
+      category: 'development',
+      ids: [memory.id, 'hand-written'],
+    });
+    const memories = await memoryStorage.retrieve('development', true);
+    expect(memories.map(entry => entry.data)).toEqual(['Uses pnpm', 'Uses vitest']);
+  });
+
+  it('picks up categories added and removed outside the server', async () => {
+    // Arrange
+    const added = nextChange();
+
+    // Act
+    fs.writeFileSync(
+      path.join(globalDir, 'notes.jsonl'),
+      serializeCategoryFile('notes', [
+        {
+          id: 'note',
+          data: 'Pulled from git',
+          tags: [],
+          createdAt: timestamp,
+          updatedAt: timestamp,
+        },
+      ])
+    );
+    await added;
+    const afterAdd = await memoryStorage.listCategories(true);
+
+    const removed = nextChange();
+    fs.unlinkSync(path.join(globalDir, 'notes.jsonl'));
+    await removed;
+
+    // Assert
+    expect(afterAdd).toEqual(['notes']);
+    expect(await memoryStorage.listCategories(true)).toEqual([]);
+  });
+
+  it('does not report its own writes as external edits', async () => {
+    // Arrange
+    const events: MemoryChangeEvent[] = [];
+    memoryStorage.on('change', event => events.push(event));
+
+    // Act
+    const memory = await memoryStorage.remember('development', 'Uses pnpm', [], true);
+    await memoryStorage.update(memory.id, true, { data: 'Uses pnpm 10' });
+    await new Promise(resolve => setTimeout(resolve, 100));
+
+    // Assert
+    expect(events.map(event => event.type)).toEqual(['create', 'update']);
+  });
+
+  it('reports invalid edits when the category is read', async () => {
+    // Arrange
+    await memoryStorage.remember('development', 'Uses pnpm', [], true);
+    const changed = nextChange();
+
+    // Act
+    fs.appendFileSync(path.join(globalDir, 'development.jsonl'), '{"id":\n');
+    await changed;
+
+    // Assert
+    await expect(memoryStorage.retrieve('development', true)).rejects.toThrow(
+      /development\.jsonl:3/
+    );
+  });
+
+  it('reads from disk again when watching a scope fails', async () => {
+    // Arrange
+    const localDir = path.join(tempDir, 'local');
+    const storage = new MemoryStorage(globalDir, localDir, {
+      backend: new FileBackend(globalDir, localDir, { watchDebounceMs: 20 }),
+    });
+    const memory = await storage.remember('development', 'Uses npm', [], true);
+    // The first scope is watched, the system runs out of watches for the second
+    const watch = fs.watch;
+    const watchers: fs.FSWatcher[] = [];
+    vi.spyOn(fs, 'watch').mockImplementation(((...args: Parameters<typeof fs.watch>) => {
+      if (watchers.length > 0) {
+        throw Object.assign(new Error('ENOSPC: System limit for number of file watchers reached'), {
+          code: 'ENOSPC',
+        });
+      }
+      const watcher = watch(...args);
+      watchers.push(watcher);
+      vi.spyOn(watcher, 'close');
+      return watcher;
+    }) as typeof fs.watch);
+
+    // Act
+    const watching = storage.watch();
+
+    // Assert
+    await expect(watching).rejects.toThrow('ENOSPC');
+    expect(watchers[0].close).toHaveBeenCalled();
+    fs.writeFileSync(
+      path.join(globalDir, 'development.jsonl'),
+      serializeCategoryFile('development', [{ ...memory, data: 'Uses pnpm' }])
+    );
+    expect(await storage.retrieve('development', true)).toMatchObject([{ data: 'Uses pnpm' }]);
+  });
+});